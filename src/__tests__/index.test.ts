@@ -1,6 +1,30 @@
-import { StringUtils, CryptoUtils, MathUtils, ArrayUtils } from '../index';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MessageChannel } from 'worker_threads';
+import { Readable } from 'stream';
+import {
+  StringUtils,
+  CryptoUtils,
+  MathUtils,
+  ArrayUtils,
+  ObjectUtils,
+  SmartCache,
+  Cached,
+  TieredCache,
+  MemoryCacheStore,
+  FileCacheStore,
+  InProcessCacheTransport,
+  MessagePortCacheTransport,
+  DataValidator,
+  MessageCatalog,
+  v,
+  Infer
+} from '../index';
 
 describe('Advanced Utils Package', () => {
+  afterEach(() => jest.useRealTimers());
+
   describe('StringUtils', () => {
     test('should calculate string similarity', () => {
       const similarity = StringUtils.similarity('hello', 'hallo');
@@ -93,4 +117,1136 @@ describe('Advanced Utils Package', () => {
       expect(shuffled.sort()).toEqual(original.sort());
     });
   });
+
+  describe('SmartCache', () => {
+    test('should persist entries to a custom store', async () => {
+      const store = new MemoryCacheStore();
+      const cache = new SmartCache({ persistence: true, storage: store });
+      await cache.set('a', 1);
+      await cache.flush();
+      await cache.destroy();
+
+      const restored = new SmartCache({ persistence: true, storage: store });
+      expect(await restored.get('a')).toBe(1);
+      await restored.destroy();
+    });
+
+    test.each(['json', 'ndjson', 'directory'] as const)('should persist entries to %s files', async format => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'smartcache-'));
+      const storagePath = path.join(dir, 'cache');
+
+      try {
+        const cache = new SmartCache({ persistence: true, storage: 'file', storagePath, storageFormat: format });
+        await cache.set('a', { n: 1 });
+        await cache.set('b', { n: 2 });
+        await cache.destroy();
+
+        const store = new FileCacheStore({ path: storagePath, format });
+        await store.delete('b');
+
+        const restored = new SmartCache({ persistence: true, storage: 'file', storagePath, storageFormat: format });
+        expect(await restored.get('a')).toEqual({ n: 1 });
+        expect(await restored.get('b')).toBeUndefined();
+        await restored.destroy();
+
+        // Concurrent writers share one read of the file and lose nothing
+        const fresh = new FileCacheStore({ path: storagePath, format });
+        await Promise.all(['c', 'd', 'e'].map(key => fresh.set(key, { n: 3 })));
+        expect((await new FileCacheStore({ path: storagePath, format }).keys()).sort()).toEqual(['a', 'c', 'd', 'e']);
+
+        // A delete issued while entries are still loading is not undone by the load
+        const reloading = new SmartCache({ persistence: true, storage: 'file', storagePath, storageFormat: format });
+        reloading.delete('a');
+        expect(await reloading.get('a')).toBeUndefined();
+        await reloading.destroy();
+        expect(await new FileCacheStore({ path: storagePath, format }).get('a')).toBeUndefined();
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    test.each(['gzip', 'deflate', 'brotli'] as const)('should compress large values with %s', async algorithm => {
+      const cache = new SmartCache({ compression: true, compressionAlgorithm: algorithm, compressionThreshold: 100 });
+      const value = { text: 'repeat '.repeat(500) };
+      await cache.set('big', value);
+
+      expect(await cache.get('big')).toEqual(value);
+      const { compression } = cache.getStats();
+      expect(compression.compressedEntries).toBe(1);
+      expect(compression.entries[0].ratio).toBeGreaterThan(10);
+      await cache.destroy();
+    });
+
+    test('should deduplicate loads and serve stale values', async () => {
+      jest.useFakeTimers();
+      const cache = new SmartCache<number>();
+      let calls = 0;
+      const loader = async () => {
+        calls++;
+        await new Promise(resolve => setTimeout(resolve, 5));
+        return calls;
+      };
+
+      const loading = Promise.all([
+        cache.getOrLoad('k', loader, { ttl: 10, staleWhileRevalidate: 1000, staleIfError: 1000 }),
+        cache.getOrLoad('k', loader, { ttl: 10 })
+      ]);
+      await jest.advanceTimersByTimeAsync(5);
+      expect(await loading).toEqual([1, 1]);
+      expect(calls).toBe(1);
+
+      jest.advanceTimersByTime(20);
+      expect(await cache.get('k')).toBeUndefined();
+      expect(await cache.getOrLoad('k', loader, { ttl: 10, staleWhileRevalidate: 1000 })).toBe(1);
+      await jest.advanceTimersByTimeAsync(5);
+      expect(calls).toBe(2);
+
+      jest.advanceTimersByTime(20);
+      const failing = async (): Promise<number> => { throw new Error('backend down'); };
+      expect(await cache.getOrLoad('k', failing, { staleIfError: 1000 })).toBe(2);
+      await expect(cache.getOrLoad('missing', failing)).rejects.toThrow('backend down');
+      await cache.destroy();
+    });
+
+    test('should support per-entry and sliding expiration', async () => {
+      jest.useFakeTimers();
+      const cache = new SmartCache({ ttl: 60000 });
+      await cache.set('short', 1, { ttl: 20 });
+      await cache.set('sliding', 2, { ttl: 40, sliding: true, maxAge: 100 });
+      await cache.set('long', 3, ['tag']);
+
+      expect(cache.ttl('short')).toBeLessThanOrEqual(20);
+      expect(cache.ttl('long')).toBeGreaterThan(59000);
+
+      jest.advanceTimersByTime(30);
+      expect(await cache.get('short')).toBeUndefined();
+      expect(await cache.get('sliding')).toBe(2);
+      jest.advanceTimersByTime(30);
+      expect(await cache.get('sliding')).toBe(2);
+      expect(cache.touch('sliding')).toBe(true);
+
+      jest.advanceTimersByTime(50);
+      expect(await cache.get('sliding')).toBeUndefined();
+      expect(cache.touch('sliding')).toBe(false);
+      expect(cache.ttl('missing')).toBeUndefined();
+
+      // Stale expiry records left by overwrites neither expire the latest value early nor twice
+      const expired: string[] = [];
+      cache.on('expire', ({ key }) => expired.push(key));
+      for (let i = 0; i < 500; i++) await cache.set('churn', i, { ttl: 100 });
+      await cache.set('churn', 500, { ttl: 20000 });
+
+      jest.advanceTimersByTime(12000);
+      expect(expired).toEqual([]);
+      expect(await cache.get('churn')).toBe(500);
+
+      jest.advanceTimersByTime(12000);
+      expect(expired).toEqual(['churn']);
+      expect(cache.ttl('churn')).toBeUndefined();
+      await cache.destroy();
+    });
+
+    test('should evict with the configured policy and byte budget', async () => {
+      const lru = new SmartCache<string>({ maxSize: 3, evictionPolicy: 'lru' });
+      await lru.set('a', 'a');
+      await lru.set('b', 'b');
+      await lru.set('c', 'c');
+      await lru.get('a');
+      await lru.set('d', 'd');
+      expect(await lru.get('b')).toBeUndefined();
+      expect(await lru.get('a')).toBe('a');
+      expect(lru.getStats().eviction.evictions).toEqual({ lru: 1 });
+      await lru.destroy();
+
+      const budget = new SmartCache<string>({ maxBytes: 100, evictionPolicy: 'lfu' });
+      await budget.set('hot', 'x'.repeat(40));
+      await budget.get('hot');
+      await budget.set('cold', 'y'.repeat(40));
+      await budget.set('new', 'z'.repeat(40));
+      await budget.set('huge', 'w'.repeat(200));
+      const stats = budget.getStats();
+      expect(stats.memoryUsage).toBeLessThanOrEqual(100);
+      expect(await budget.get('hot')).toBeDefined();
+      expect(await budget.get('cold')).toBeUndefined();
+      expect(stats.eviction.oversizedRejections).toBe(1);
+      await budget.destroy();
+
+      const tiny = new SmartCache<number>({ maxSize: 100, evictionPolicy: 'w-tinylfu' });
+      await tiny.set('hot', 0);
+      for (let i = 0; i < 5; i++) await tiny.get('hot');
+      for (let i = 0; i < 300; i++) await tiny.set(`scan:${i}`, i);
+      expect(await tiny.get('hot')).toBe(0);
+      expect(tiny.getStats().size).toBeLessThanOrEqual(100);
+      await tiny.destroy();
+    });
+
+    test('should emit lifecycle events', async () => {
+      jest.useFakeTimers();
+      const cache = new SmartCache<number>({ maxSize: 2, evictionPolicy: 'lru' });
+      const events: string[] = [];
+      cache.on('set', ({ key }) => events.push(`set:${key}`));
+      cache.on('hit', ({ key }) => events.push(`hit:${key}`));
+      cache.on('miss', ({ key }) => events.push(`miss:${key}`));
+      cache.on('evict', ({ key, reason }) => events.push(`evict:${key}:${reason}`));
+      cache.on('expire', ({ key }) => events.push(`expire:${key}`));
+      cache.on('invalidate', ({ key, tag }) => events.push(`invalidate:${key}:${tag}`));
+
+      await cache.set('a', 1, { ttl: 5 });
+      await cache.set('b', 2, ['users']);
+      await cache.get('b');
+      await cache.set('c', 3);
+      await cache.get('a');
+      cache.invalidateByTag('users');
+      await cache.set('d', 4, { ttl: 5 });
+      jest.advanceTimersByTime(10);
+      await cache.get('d');
+
+      expect(events).toEqual([
+        'set:a', 'set:b', 'hit:b', 'evict:a:capacity', 'set:c', 'miss:a',
+        'invalidate:b:users', 'set:d', 'expire:d', 'miss:d'
+      ]);
+      await cache.destroy();
+    });
+
+    test('should read through tiers and keep tag invalidation consistent', async () => {
+      const l1 = new SmartCache<string>();
+      const l2 = new SmartCache<string>();
+      const tiered = new TieredCache<string>({ tiers: [l1, l2], writeMode: 'write-back' });
+
+      await l2.set('remote', 'value', { ttl: 60000, tags: ['users'] });
+      expect(await tiered.get('remote')).toBe('value');
+      expect(await l1.get('remote')).toBe('value');
+      expect(l1.getTags('remote')).toEqual(['users']);
+
+      await tiered.set('local', 'pending', ['users']);
+      expect(await l2.get('local')).toBeUndefined();
+      await tiered.flush();
+      expect(await l2.get('local')).toBe('pending');
+
+      await tiered.set('dropped', 'x', ['users']);
+      await tiered.invalidateByTag('users');
+      await tiered.flush();
+      for (const key of ['remote', 'local', 'dropped']) {
+        expect(await tiered.get(key)).toBeUndefined();
+      }
+      expect(tiered.getStats().hitsByTier).toEqual([0, 1]);
+
+      // A delete racing an in-flight write-back is not undone by it
+      await tiered.set('racing', 'x');
+      const flushing = tiered.flush();
+      await tiered.delete('racing');
+      await flushing;
+      expect(await l2.get('racing')).toBeUndefined();
+
+      await l1.destroy();
+      await l2.destroy();
+    });
+
+    test('should keep the original expiry of pending write-backs', async () => {
+      jest.useFakeTimers();
+      const l1 = new SmartCache<string>();
+      const l2 = new SmartCache<string>();
+      const tiered = new TieredCache<string>({ tiers: [l1, l2], writeMode: 'write-back', writeBackDelay: 60000 });
+
+      await tiered.set('hot', 'v', { ttl: 100 });
+      jest.advanceTimersByTime(60);
+      l1.delete('hot');
+      expect(await tiered.get('hot')).toBe('v');
+      expect(l1.ttl('hot')).toBeLessThanOrEqual(40);
+
+      jest.advanceTimersByTime(50);
+      expect(await tiered.get('hot')).toBeUndefined();
+      await tiered.flush();
+      expect(await l2.get('hot')).toBeUndefined();
+
+      await l1.destroy();
+      await l2.destroy();
+    });
+
+    test('should export and import verified snapshots', async () => {
+      const source = new SmartCache({ compression: true, compressionThreshold: 10 });
+      await source.set('user:1', { name: 'Ada', bio: 'x'.repeat(100) }, { tags: ['users'], ttl: 60000 });
+      await source.get('user:1');
+
+      const snapshot = await source.exportSnapshot({ compress: 'gzip', secret: 's3cret' });
+      expect(snapshot.version).toBe(1);
+
+      const target = new SmartCache();
+      expect(await target.importSnapshot(JSON.stringify(snapshot), { secret: 's3cret' })).toEqual({ imported: 1, skipped: 0 });
+      expect(await target.get('user:1')).toEqual({ name: 'Ada', bio: 'x'.repeat(100) });
+      expect(target.getTags('user:1')).toEqual(['users']);
+      expect(target.getStats().topKeys).toEqual(['user:1']);
+
+      const tampered = { ...snapshot, createdAt: snapshot.createdAt + 1 };
+      await expect(target.importSnapshot(tampered, { secret: 's3cret' })).rejects.toThrow('checksum mismatch');
+      await expect(target.importSnapshot(snapshot)).rejects.toThrow('secret is required');
+      await expect(target.importSnapshot({ ...snapshot, version: 99 })).rejects.toThrow('Unsupported');
+
+      await source.destroy();
+      await target.destroy();
+    });
+
+    test('should invalidate hierarchical tags and dependent keys', async () => {
+      const cache = new SmartCache();
+      await cache.set('user:42', { id: 42 }, { tags: ['user:42'] });
+      await cache.set('user:42:orders', [], { tags: ['user:42:orders'] });
+      await cache.set('user:7:orders', [], { tags: ['user:7:orders'] });
+      await cache.set('report', 'r', { dependsOn: ['user:42:orders'] });
+      await cache.set('summary', 's', { dependsOn: ['report'] });
+      await cache.set('feed', 'f');
+      cache.addDependency('feed', 'external:1');
+
+      expect(cache.invalidateByTag('user:42').sort()).toEqual(['report', 'summary', 'user:42', 'user:42:orders']);
+      expect(cache.invalidateByTag('user:*:orders')).toEqual(['user:7:orders']);
+      expect(cache.invalidate('external:1')).toEqual(['feed']);
+      expect(cache.getStats().size).toBe(0);
+      await cache.destroy();
+    });
+
+    test('should memoize sync and async functions', async () => {
+      const cache = new SmartCache();
+      let syncCalls = 0;
+      const area = cache.memoize((size: { w: number; h: number }) => ++syncCalls && size.w * size.h);
+      expect(area({ w: 2, h: 3 })).toBe(6);
+      expect(area({ h: 3, w: 2 })).toBe(6);
+      expect(syncCalls).toBe(1);
+
+      let asyncCalls = 0;
+      const load = cache.memoize(async (id: number) => {
+        asyncCalls++;
+        if (id < 0) throw new Error('bad id');
+        return { id };
+      }, { key: id => String(id), tags: ['users'] });
+      const [a, b] = await Promise.all([load(1), load(1)]);
+      expect(a).toEqual({ id: 1 });
+      expect(b).toBe(a);
+      expect(await load(1)).toEqual({ id: 1 });
+      expect(asyncCalls).toBe(1);
+
+      await expect(load(-1)).rejects.toThrow('bad id');
+      await expect(load(-1)).rejects.toThrow('bad id');
+      expect(asyncCalls).toBe(3);
+
+      cache.invalidateByTag('users');
+      await load(1);
+      expect(asyncCalls).toBe(4);
+
+      class Service {
+        calls = 0;
+        constructor(private factor: number) {}
+
+        @Cached({ cache })
+        scale(value: number) {
+          this.calls++;
+          return value * this.factor;
+        }
+      }
+      const double = new Service(2);
+      const triple = new Service(3);
+      expect([double.scale(5), double.scale(5), triple.scale(5)]).toEqual([10, 10, 15]);
+      expect(double.calls).toBe(1);
+
+      await cache.destroy();
+    });
+
+    test('should encrypt persisted entries and rotate keys', async () => {
+      const store = new MemoryCacheStore();
+      const writer = new SmartCache({ persistence: true, storage: store, encryption: { password: 'hunter2' } });
+      await writer.set('token', { secret: 'abc123' });
+      await writer.flush();
+
+      const record: any = await store.get('token');
+      expect(record.keyId).toBe('default');
+      expect(JSON.stringify(record)).not.toContain('abc123');
+
+      const reader = new SmartCache({ persistence: true, storage: store, encryption: { password: 'hunter2' } });
+      expect(await reader.get('token')).toEqual({ secret: 'abc123' });
+
+      const key = await CryptoUtils.generateKey();
+      await writer.set('other', 'value');
+      await writer.flush();
+      expect(await writer.rotateEncryptionKey({ id: 'v2', key })).toBe(2);
+      expect(((await store.get('token')) as any).keyId).toBe('v2');
+
+      const rotated = new SmartCache({
+        persistence: true,
+        storage: store,
+        encryption: { id: 'v2', key, previousKeys: [{ password: 'hunter2' }] }
+      });
+      expect(await rotated.get('other')).toBe('value');
+
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const plain = new SmartCache({ persistence: true, storage: store });
+      expect(await plain.get('token')).toBeUndefined();
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+
+      await Promise.all([writer, reader, rotated, plain].map(cache => cache.destroy()));
+    });
+
+    test('should refresh ahead of expiry and cache negative results', async () => {
+      jest.useFakeTimers();
+      const cache = new SmartCache();
+      let version = 0;
+      const loader = () => `v${++version}`;
+
+      expect(await cache.getOrLoad('config', loader, { ttl: 100, refreshAhead: 0.5 })).toBe('v1');
+      jest.advanceTimersByTime(60);
+      expect(await cache.getOrLoad('config', loader)).toBe('v1');
+      await jest.advanceTimersByTimeAsync(0);
+      expect(await cache.get('config')).toBe('v2');
+      expect(cache.ttl('config')).toBeGreaterThan(60);
+
+      let lookups = 0;
+      const findUser = () => {
+        lookups++;
+        return undefined;
+      };
+      expect(await cache.getOrLoad('user:404', findUser, { negativeTtl: 50 })).toBeUndefined();
+      expect(await cache.getOrLoad('user:404', findUser, { negativeTtl: 50 })).toBeUndefined();
+      expect(lookups).toBe(1);
+      expect(cache.isNegative('user:404')).toBe(true);
+
+      // Without a negativeTtl "not found" is not cached
+      await cache.getOrLoad('user:405', findUser);
+      await cache.getOrLoad('user:405', findUser);
+      expect(lookups).toBe(3);
+      expect(await cache.lookup('user:405')).toEqual({ status: 'miss' });
+      expect(await cache.lookup('user:404')).toEqual({ status: 'negative' });
+      expect(await cache.lookup('user:1')).toEqual({ status: 'miss' });
+      expect(await cache.lookup('config')).toEqual({ status: 'hit', value: 'v2' });
+
+      jest.advanceTimersByTime(60);
+      expect(await cache.lookup('user:404')).toEqual({ status: 'miss' });
+      await cache.destroy();
+    });
+
+    test('should prefetch predicted keys within budget', async () => {
+      const cache = new SmartCache({ prefetch: { maxPerMinute: 1 } });
+      const loaded: string[] = [];
+      cache.registerLoader(key => {
+        loaded.push(key);
+        return `v:${key}`;
+      });
+
+      await cache.get('page:1');
+      await cache.get('page:2');
+      await cache.get('page:1');
+      await new Promise(resolve => setTimeout(resolve, 0));
+      expect(loaded).toEqual(['page:2']);
+
+      expect(await cache.get('page:2')).toBe('v:page:2');
+      const { prefetch } = cache.getStats();
+      expect(prefetch).toMatchObject({ enabled: true, issued: 1, hits: 1, hitRate: 1, skipped: 1 });
+      expect(loaded).toEqual(['page:2']);
+      await cache.destroy();
+    });
+
+    test('should keep peer caches coherent over a transport', async () => {
+      const bus = new InProcessCacheTransport();
+      const a = new SmartCache({ coherence: bus, instanceId: 'a' });
+      const b = new SmartCache({ coherence: bus, instanceId: 'b' });
+      const origins: Array<string | undefined> = [];
+      b.on('invalidate', ({ origin }) => origins.push(origin));
+      const sent: any[] = [];
+      bus.subscribe(message => sent.push(message));
+
+      await b.set('user:1', 'stale', { tags: ['users'] });
+      await b.set('user:2', 'u2', { tags: ['users'] });
+      await a.set('user:1', 'fresh');
+      expect(await b.get('user:1')).toBeUndefined();
+      expect(await a.get('user:1')).toBe('fresh');
+
+      a.invalidateByTag('users');
+      expect(await b.get('user:2')).toBeUndefined();
+      expect(origins).toEqual(['a', 'a']);
+
+      // Replayed messages are ignored
+      await b.set('user:3', 'u3');
+      bus.publish({ ...sent.find(message => message.origin === 'a'), timestamp: Date.now(), op: 'delete', key: 'user:3' });
+      expect(await b.get('user:3')).toBe('u3');
+
+      // A restarted peer reusing its instanceId is heard from sequence 1 again
+      const restarted = new SmartCache({ coherence: bus, instanceId: 'a' });
+      await b.set('user:5', 'u5');
+      await restarted.set('user:5', 'new');
+      expect(await b.get('user:5')).toBeUndefined();
+      await restarted.destroy();
+
+      // Loads, memoized results and clear() are writes too
+      await b.set('user:4', 'stale');
+      await a.getOrLoad('user:4', async () => 'loaded');
+      expect(await b.get('user:4')).toBeUndefined();
+      const double = a.memoize((n: number) => n * 2, { namespace: 'double', key: n => String(n) });
+      await b.set('double:2', 0);
+      expect(double(2)).toBe(4);
+      expect(await b.get('double:2')).toBeUndefined();
+      a.clear();
+      expect(await b.get('user:3')).toBeUndefined();
+
+      const { port1, port2 } = new MessageChannel();
+      const left = new SmartCache({ coherence: new MessagePortCacheTransport(port1) });
+      const right = new SmartCache({ coherence: new MessagePortCacheTransport(port2) });
+      await right.set('config', { v: 1 });
+      const invalidated = new Promise(resolve => right.once('invalidate', resolve));
+      left.delete('config');
+      expect(await invalidated).toMatchObject({ key: 'config' });
+      expect(await right.get('config')).toBeUndefined();
+
+      await Promise.all([a, b, left, right].map(cache => cache.destroy()));
+      port1.close();
+    });
+  });
+
+  describe('DataValidator', () => {
+    test('should validate nested paths, array items and missing fields', () => {
+      const validator = new DataValidator();
+      validator.addRule('address.zip', { type: 'required', message: 'zip is required' });
+      validator.addRule('items[*].price', { type: 'number', message: 'price must be a number' });
+      validator.addRule('items[0].sku', { type: 'string', message: 'sku must be a string' });
+      validator.addRule('email', { type: 'required', message: 'email is required' });
+      validator.addRule('nickname', { type: 'string', message: 'nickname must be a string' });
+
+      const result = validator.validateObject({
+        address: { city: 'Oslo' },
+        items: [{ price: 10, sku: 'A1' }, { price: 'free' }, { price: 3 }]
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toEqual({
+        'address.zip': ['zip is required'],
+        'items[1].price': ['price must be a number'],
+        email: ['email is required']
+      });
+      expect(result.summary.invalidFields).toBe(3);
+
+      expect(validator.validateObject({
+        address: { zip: '0150' },
+        email: 'a@b.co',
+        items: []
+      }).isValid).toBe(true);
+    });
+
+    test('should validate with fluent typed schemas', () => {
+      const order = v.object({
+        email: v.string().email(),
+        age: v.number().int().min(0).optional(),
+        status: v.union(v.literal('open'), v.literal('closed')).default('open'),
+        items: v.array(v.object({ sku: v.string().min(2), qty: v.number().min(1) })).min(1),
+        notes: v.string().nullable(),
+        meta: v.record(v.number()),
+        total: v.number().refine(total => total % 5 === 0, 'total must be a multiple of 5')
+      });
+
+      const input = {
+        email: 'a@b.co',
+        items: [{ sku: 'AB', qty: 2 }],
+        notes: null,
+        meta: { weight: 2 },
+        total: 10,
+        extra: true
+      };
+      const ok = order.validate(input);
+      const parsed: Infer<typeof order> | undefined = ok.data;
+      expect(ok.valid).toBe(true);
+      expect(parsed).toEqual({ ...input, extra: undefined, status: 'open' });
+
+      const bad = order.validate({ email: 'nope', age: 1.5, items: [{ sku: 'A', qty: 1 }], meta: { a: 'x' }, total: 7 });
+      expect(bad.valid).toBe(false);
+      expect(bad.data).toBeUndefined();
+      expect(bad.errors.map(({ field, rule }) => `${field}:${rule}`)).toEqual([
+        'email:email', 'age:int', 'items[0].sku:min', 'notes:required', 'meta.a:number', 'total:refine'
+      ]);
+      expect(bad.errors[2].message).toBe('Must be at least 2 characters');
+      DataValidator.registerMessages('fr', { required: '{field} est requis', plainObject: 'Doit être un objet' });
+      expect(v.object({ n: v.number() }).validate({}, { locale: 'fr' }).errors[0].message).toBe('n est requis');
+      expect(v.record(v.number()).validate([], { locale: 'fr' }).errors[0].message).toBe('Doit être un objet');
+
+      // Untrusted record keys never reach the prototype
+      const record = v.record(v.number()).validate(JSON.parse('{"__proto__": 1}'));
+      expect(Object.getPrototypeOf(record.data)).toBe(Object.prototype);
+      expect(Object.keys(record.data!)).toEqual(['__proto__']);
+    });
+
+    test('should import and export JSON Schema', () => {
+      const schema = {
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
+        $defs: {
+          item: {
+            type: 'object',
+            required: ['sku', 'qty'],
+            properties: { sku: { type: 'string', pattern: '^[A-Z]+$' }, qty: { type: 'integer', minimum: 1 } }
+          },
+          node: { type: 'object', properties: { children: { type: 'array', items: { $ref: '#/$defs/node' } } } }
+        },
+        type: 'object',
+        required: ['id', 'items'],
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          status: { enum: ['open', 'closed'] },
+          note: { type: ['string', 'null'], maxLength: 5 },
+          items: { type: 'array', minItems: 1, items: { $ref: '#/$defs/item' } },
+          contact: { type: 'object', required: ['email'], properties: { email: { type: 'string', format: 'email' } } },
+          amount: { oneOf: [{ type: 'integer' }, { type: 'string', const: 'free' }] },
+          tree: { $ref: '#/$defs/node' }
+        }
+      };
+      const validator = DataValidator.fromJSONSchema(schema);
+
+      const valid = validator.validateObject({
+        id: '123e4567-e89b-12d3-a456-426614174000',
+        note: null,
+        items: [{ sku: 'AB', qty: 2 }],
+        amount: 'free',
+        tree: { children: [{ children: [] }] }
+      });
+      expect(valid.errors).toEqual({});
+
+      const invalid = validator.validateObject({
+        status: 'pending',
+        note: 'too long',
+        items: [{ sku: 'ab', qty: 0 }, { qty: 1 }],
+        contact: {},
+        amount: 1.5,
+        tree: { children: [{ children: 'none' }] }
+      });
+      expect(Object.keys(invalid.errors).sort()).toEqual([
+        'amount', 'contact', 'id', 'items[0].qty', 'items[0].sku', 'items[1].sku', 'note', 'status', 'tree.children[0]'
+      ]);
+      expect(invalid.errors).toMatchObject({
+        status: ['Must be one of: "open", "closed"'],
+        note: ['Must be no more than 5 characters'],
+        contact: ['email is required'],
+        'items[0].qty': ['Must be at least 1'],
+        'tree.children[0]': ['Does not match #/$defs/node']
+      });
+
+      // Imported rules render from the catalog, so they follow the locale
+      DataValidator.registerMessages('es', { string: 'Debe ser texto', 'max.length': 'Como máximo {max} caracteres' });
+      expect(validator.validateObject({ id: 1, note: 'too long', items: [] }, { locale: 'es' }).errors).toMatchObject({
+        id: ['Debe ser texto'],
+        note: ['Como máximo 5 caracteres']
+      });
+
+      const exported = validator.toJSONSchema();
+      expect(exported.required).toEqual(['id', 'items']);
+      expect(exported).toMatchObject({
+        properties: {
+          items: {
+            type: 'array',
+            minItems: 1,
+            items: { required: ['sku', 'qty'], properties: { sku: { type: 'string', pattern: '^[A-Z]+$' } } }
+          },
+          contact: { required: ['email'] }
+        }
+      });
+
+      const inferred = new DataValidator().inferSchema([{ email: 'a@b.co', age: 30 }, { email: 'c@d.io', age: 41 }]);
+      expect(new DataValidator().toJSONSchema(inferred)).toMatchObject({
+        required: ['email', 'age'],
+        properties: { email: { type: 'string', format: 'email' }, age: { type: 'number', minimum: 30, maximum: 41 } }
+      });
+
+      const strict = DataValidator.fromJSONSchema({
+        type: 'object',
+        additionalProperties: false,
+        maxProperties: 3,
+        properties: {
+          day: { type: 'string', format: 'date' },
+          host: { type: 'string', format: 'ipv6' },
+          price: { type: 'number', multipleOf: 0.01 },
+          tags: { type: 'array', uniqueItems: true, items: { not: { const: '' } } },
+          kind: { type: 'string' },
+          ref: { type: 'string' }
+        },
+        if: { required: ['kind'], properties: { kind: { const: 'link' } } },
+        then: { required: ['ref'] }
+      });
+      expect(strict.validateObject({ day: '2024-02-29', host: '::1', price: 19.99 }).isValid).toBe(true);
+      expect(Object.keys(strict.validateObject({ day: '2024-02-30', host: ':', price: 1.001, extra: 1 }).errors).sort())
+        .toEqual(['', 'day', 'host', 'price']);
+      expect(Object.keys(strict.validateObject({ tags: ['a', 'a', ''], kind: 'link' }).errors).sort())
+        .toEqual(['', 'tags', 'tags[2]']);
+      expect(() => DataValidator.fromJSONSchema({ type: 'array', contains: { type: 'string' } }))
+        .toThrow('Unsupported JSON Schema keyword at #: contains');
+    });
+
+    test('should run async rules with concurrency, timeouts and cancellation', async () => {
+      jest.useFakeTimers();
+      const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+      const taken = new Set(['admin']);
+      let uniquenessChecks = 0;
+      let running = 0;
+      let maxRunning = 0;
+
+      const validator = new DataValidator();
+      validator.addRule('username', { type: 'string', message: 'username must be a string' });
+      validator.addRule('username', {
+        type: 'custom',
+        message: 'username is taken',
+        asyncValidator: async name => {
+          uniquenessChecks++;
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await sleep(10);
+          running--;
+          return !taken.has(name);
+        }
+      });
+      validator.addRule('website', {
+        type: 'custom',
+        message: 'website must resolve',
+        timeout: 20,
+        asyncValidator: async url => {
+          await sleep(url.includes('slow') ? 200 : 1);
+          return true;
+        }
+      });
+
+      const validating = validator.validateObjectAsync({ username: 'admin', website: 'https://slow.example' });
+      await jest.advanceTimersByTimeAsync(20);
+      const result = await validating;
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toEqual({
+        username: ['username is taken'],
+        website: ['Validation timed out after 20ms']
+      });
+      expect(result.summary.invalidFields).toBe(2);
+
+      uniquenessChecks = 0;
+      const batching = validator.validateBatchAsync(
+        [{ username: 42 }, { username: 'a' }, { username: 'b' }, { username: 'c' }, { username: 'admin' }],
+        { concurrency: 2 }
+      );
+      await jest.advanceTimersByTimeAsync(20);
+      const batch = await batching;
+      expect(batch.results.map(r => r.isValid)).toEqual([false, true, true, true, false]);
+      expect(batch.results[0].errors).toEqual({ username: ['username must be a string'] });
+      expect(uniquenessChecks).toBe(4);
+      expect(maxRunning).toBe(2);
+
+      const controller = new AbortController();
+      const pending = validator.validateObjectAsync({ username: 'new' }, { signal: controller.signal });
+      controller.abort();
+      await expect(pending).rejects.toThrow();
+
+      // Let the abandoned slow and aborted validators finish so no timer outlives the test
+      await jest.advanceTimersByTimeAsync(200);
+      expect(jest.getTimerCount()).toBe(0);
+    });
+
+    test('should apply cross-field and conditional rules', () => {
+      const EU = ['DE', 'FR', 'NL'];
+      const validator = new DataValidator();
+      validator.addRule('startDate', { type: 'required' });
+      validator.addObjectRule({
+        fields: ['endDate'],
+        message: 'endDate must be after startDate',
+        validator: o => o.endDate === undefined || new Date(o.endDate) > new Date(o.startDate)
+      });
+      validator.addObjectRule({
+        fields: ['password', 'confirmPassword'],
+        message: 'Passwords must match',
+        validator: o => o.password === o.confirmPassword
+      });
+      validator.when('country', country => EU.includes(country)).then({
+        vatNumber: { type: 'required', message: 'VAT number is required in the EU' }
+      });
+
+      const base = { startDate: '2024-01-01', endDate: '2024-02-01', password: 'a', confirmPassword: 'a' };
+      expect(validator.validateObject({ ...base, country: 'US' }).isValid).toBe(true);
+
+      const result = validator.validateObject({ ...base, endDate: '2023-12-01', confirmPassword: 'b', country: 'DE' });
+      expect(result.errors).toEqual({
+        vatNumber: ['VAT number is required in the EU'],
+        endDate: ['endDate must be after startDate'],
+        password: ['Passwords must match'],
+        confirmPassword: ['Passwords must match']
+      });
+      expect(result.summary.invalidFields).toBe(4);
+      expect(validator.validateObject({ ...base, country: 'DE', vatNumber: 'DE123' }).isValid).toBe(true);
+
+      // Cross-field rules are skipped while an attributed field already failed
+      validator.addRule('endDate', { type: 'string', message: 'endDate must be a string' });
+      expect(validator.validateObject({ ...base, endDate: 5 }).errors).toEqual({ endDate: ['endDate must be a string'] });
+      expect(validator.validateField('vatNumber', undefined).isValid).toBe(true);
+    });
+
+    test('should enforce min/max/pattern and built-in rule types', () => {
+      const validator = new DataValidator();
+      validator.addRule('name', { type: 'string', min: 2, max: 5 });
+      validator.addRule('code', { type: 'string', pattern: /^[A-Z]{3}$/ });
+      validator.addRule('tags', { type: 'custom', validator: Array.isArray, max: 2 });
+      validator.addRule('qty', { type: 'integer', min: 1 });
+
+      expect(validator.validateObject({ name: 'Ada', code: 'ABC', tags: ['a'], qty: 3 }).isValid).toBe(true);
+      expect(validator.validateObject({ name: 'A', code: 'abc', tags: ['a', 'b', 'c'], qty: 0 }).errors).toEqual({
+        name: ['Must be at least 2 characters'],
+        code: ['Does not match the required pattern'],
+        tags: ['Must be no more than 2 items'],
+        qty: ['Must be at least 1']
+      });
+      expect(validator.validateField('qty', 1.5).errors).toEqual(['Must be an integer']);
+
+      const check = (rule: any, value: any) => validator.checkRule(rule, value).isValid;
+      const cases: Array<[any, any[], any[]]> = [
+        [{ type: 'boolean' }, [true, false], ['true', 0]],
+        [{ type: 'date' }, ['2024-02-29', new Date()], ['2023-02-29', '2024-13-01', new Date('x')]],
+        [{ type: 'datetime' }, ['2024-01-31T09:30:00Z', '2024-01-31T09:30:00.123+02:00'], ['2024-01-31', '2024-01-31T25:00:00Z']],
+        [{ type: 'uuid' }, ['123e4567-e89b-12d3-a456-426614174000'], ['123e4567-e89b-12d3-a456', 'not-a-uuid']],
+        [{ type: 'ipv4' }, ['192.168.0.1', '0.0.0.0'], ['256.1.1.1', '01.2.3.4', '1.2.3']],
+        [{ type: 'ipv6' }, ['2001:db8::1', '::', '::ffff:10.0.0.1', '1:2:3:4:5:6:7:8'], ['1::2::3', '1:2:3:4:5:6:7', 'g::1', '1:2:3:4:5:6:7:8:9']],
+        [{ type: 'phone' }, ['+14155550123'], ['4155550123', '+0123', '+1 415 555']],
+        [{ type: 'creditCard' }, ['4111 1111 1111 1111', '5500-0000-0000-0004'], ['4111 1111 1111 1112', '1234']],
+        [{ type: 'enum', values: ['draft', 'published'] }, ['draft'], ['archived', undefined]],
+        [{ type: 'hexColor' }, ['#fff', '#1E90FF', '#1e90ff80'], ['1e90ff', '#12345']],
+        [{ type: 'semver' }, ['1.4.2', '2.0.0-rc.1+build.5'], ['1.4', '01.0.0']],
+        [{ type: 'slug' }, ['my-post-1'], ['My Post', 'double--dash', '-leading']]
+      ];
+      for (const [rule, valid, invalid] of cases) {
+        valid.forEach(value => expect([rule.type, value, check(rule, value)]).toEqual([rule.type, value, true]));
+        invalid.forEach(value => expect([rule.type, value, check(rule, value)]).toEqual([rule.type, value, false]));
+      }
+
+      const status = validator.checkRule({ type: 'enum', values: ['draft', 'published'] }, 'archived');
+      expect(status.error).toBe('Must be one of: "draft", "published"');
+      expect(status.suggestion).toBe('Please choose one of the allowed values');
+    });
+
+    test('should run declarative transforms before validation with an audit trail', () => {
+      const validator = new DataValidator();
+      validator.addTransform('email', { type: 'email' });
+      validator.addTransform('price', [{ type: 'number' }, { type: 'round', decimals: 2 }]);
+      validator.addTransform('active', { type: 'boolean' });
+      validator.addTransform('phone', { type: 'phone', countryCode: '44' });
+      validator.addTransform('joined', { type: 'date' });
+      validator.addTransform('role', { type: 'default', value: 'member' });
+      validator.addTransform('items[*].sku', [{ type: 'trim' }, { type: 'uppercase' }]);
+      validator.addTransform('nickname', { type: 'custom', transform: (value, obj) => value ?? obj.email.split('@')[0], reason: 'Derived from email' });
+      validator.addRule('price', { type: 'number', min: 0 });
+      validator.addRule('active', { type: 'boolean' });
+      validator.addRule('phone', { type: 'phone' });
+
+      const input = {
+        email: '  Ada@Example.COM ',
+        price: '1,234.567',
+        active: 'yes',
+        phone: '07911 123-456',
+        joined: '2024-01-31',
+        items: [{ sku: ' ab-1 ' }],
+        url: 'example.com'
+      };
+      const { data, changes } = validator.transform(input);
+
+      expect(data).toEqual({
+        email: 'ada@example.com',
+        price: 1234.57,
+        active: true,
+        phone: '+447911123456',
+        joined: new Date('2024-01-31'),
+        role: 'member',
+        items: [{ sku: 'AB-1' }],
+        url: 'example.com',
+        nickname: 'ada'
+      });
+      expect(input.email).toBe('  Ada@Example.COM ');
+      expect(changes.map(c => [c.field, c.transform])).toEqual([
+        ['email', 'email'],
+        ['price', 'number'],
+        ['price', 'round'],
+        ['active', 'boolean'],
+        ['phone', 'phone'],
+        ['joined', 'date'],
+        ['role', 'default'],
+        ['items[0].sku', 'trim'],
+        ['items[0].sku', 'uppercase'],
+        ['nickname', 'custom']
+      ]);
+      expect(changes[2]).toEqual({ field: 'price', transform: 'round', original: 1234.567, transformed: 1234.57, reason: 'Rounded to 2 decimal places' });
+      expect(changes[9].reason).toBe('Derived from email');
+
+      // Validation sees transformed values; unparseable input is left for validation to report
+      expect(validator.validateObject(input).isValid).toBe(true);
+      expect(validator.validateObject({ ...input, price: 'n/a', active: 'maybe' }).errors).toEqual({
+        price: ['Must be a number'],
+        active: ['Must be true or false']
+      });
+      expect(validator.cleanData(input).changes[0]).toEqual({
+        field: 'email', original: '  Ada@Example.COM ', corrected: 'ada@example.com', reason: 'Normalized email address'
+      });
+
+      // Without a country code only international numbers are normalized
+      const phones = new DataValidator();
+      phones.addTransform('phone', { type: 'phone' });
+      expect(phones.transform({ phone: '07911 123-456' })).toMatchObject({ data: { phone: '07911 123-456' }, changes: [] });
+      expect(phones.transform({ phone: '0044 7911 123456' }).data.phone).toBe('+447911123456');
+
+      // A throwing step is reported against its field instead of escaping
+      const strict = new DataValidator();
+      strict.addTransform('code', { type: 'custom', transform: () => { throw new Error('bad code'); } });
+      strict.addRule('code', { type: 'number' });
+      expect(strict.transform({ code: 'x' }).failures).toEqual([{ field: 'code', transform: 'custom', error: 'bad code' }]);
+      expect(strict.validateObject({ code: 'x' }).errors).toEqual({ code: ['Could not apply the custom transform'] });
+
+      // A `__proto__` key in the input is copied as data, never as the prototype
+      const guarded = new DataValidator();
+      guarded.addTransform('name', { type: 'trim' });
+      guarded.addRule('role', { type: 'required' });
+      const injected = JSON.parse('{"name":" a ","__proto__":{"role":"admin"}}');
+      const { data: cloned } = guarded.transform(injected);
+      expect(Object.getPrototypeOf(cloned)).toBe(Object.prototype);
+      expect(cloned.role).toBeUndefined();
+      expect(Object.keys(cloned)).toEqual(['name', '__proto__']);
+      expect(guarded.validateObject(injected).errors).toEqual({ role: ['This field is required'] });
+    });
+
+    test('should localize messages with placeholders and plurals', () => {
+      DataValidator.registerMessages('de', {
+        required: '{field} ist erforderlich',
+        'min.length': 'Mindestens {min, plural, one {# Zeichen} other {# Zeichen}} (aktuell {actual})',
+        'min.items': '{min, plural, one {Mindestens ein Eintrag} other {Mindestens # Einträge}}',
+        'username.taken': 'Der Benutzername {value} ist vergeben'
+      });
+      DataValidator.registerMessages('ja', { required: '{field}は必須です', 'min.items': '{min}件以上必要です' });
+
+      const validator = new DataValidator();
+      validator.addRule('name', { type: 'required' });
+      validator.addRule('name', { type: 'string', min: 3 });
+      validator.addRule('tags', { type: 'custom', validator: Array.isArray, min: 1 });
+      validator.addRule('user', { type: 'custom', messageKey: 'username.taken', validator: value => value !== 'admin' });
+
+      expect(validator.validateObject({ tags: [] }, { locale: 'de' }).errors).toEqual({
+        name: ['name ist erforderlich'],
+        tags: ['Mindestens ein Eintrag']
+      });
+      expect(validator.validateObject({ name: 'Al', tags: [], user: 'admin' }, { locale: 'de-AT' }).errors).toEqual({
+        name: ['Mindestens 3 Zeichen (aktuell 2)'],
+        tags: ['Mindestens ein Eintrag'],
+        user: ['Der Benutzername admin ist vergeben']
+      });
+      expect(validator.validateObject({ tags: [] }, { locale: 'ja' }).errors).toEqual({
+        name: ['nameは必須です'],
+        tags: ['1件以上必要です']
+      });
+
+      // English pluralization, fallback for untranslated keys, and the per-validator default locale
+      expect(validator.validateField('name', 'A').errors).toEqual(['Must be at least 3 characters']);
+      expect(validator.checkRule({ type: 'string', max: 1 }, 'ab').error).toBe('Must be no more than 1 character');
+      validator.setLocale('ja');
+      expect(validator.validateField('name', 42).errors).toEqual(['Must be a string']);
+      expect(validator.validateObject({ tags: [1] }).errors).toEqual({ name: ['nameは必須です'] });
+
+      const catalog = new MessageCatalog();
+      catalog.register('en', { files: '{count, plural, =0 {No files} one {# file} other {# files}}' });
+      expect([0, 1, 5].map(count => catalog.translate('files', { count }))).toEqual(['No files', '1 file', '5 files']);
+      expect(catalog.format('Use {a-z} for {thing}', { thing: 'slugs' })).toBe('Use {a-z} for slugs');
+      // Only registered keys and given params resolve, never Object.prototype members
+      expect(catalog.has('constructor')).toBe(false);
+      expect(catalog.translate('toString')).toBe('toString');
+      expect(catalog.format('{constructor}', {})).toBe('{constructor}');
+    });
+
+    test('should validate NDJSON and CSV streams row by row', async () => {
+      const validator = new DataValidator();
+      validator.addRule('name', { type: 'required' });
+      validator.addRule('age', { type: 'integer', min: 0 });
+      validator.addTransform('age', { type: 'number' });
+
+      // Chunk boundaries fall inside lines and inside the multi-byte "é"
+      const ndjson = Buffer.from('{"name":"Zoë","age":30}\n\n{"age":-1}\nnot json\r\n{"name":"René","age":"41"}');
+      async function* chunks() {
+        for (let i = 0; i < ndjson.length; i += 7) yield ndjson.subarray(i, i + 7);
+      }
+
+      const rows: any[] = [];
+      const summary = await validator.validateStream(chunks(), { onRow: row => { rows.push(row); } });
+
+      expect(rows.map(row => [row.line, row.isValid])).toEqual([[1, true], [3, false], [4, false], [5, true]]);
+      expect(rows[1].errors).toEqual({ name: ['This field is required'], age: ['Must be at least 0'] });
+      expect(rows[2].errors._row[0]).toMatch(/^Invalid JSON/);
+      expect(rows[3].data).toEqual({ name: 'René', age: 41 });
+      expect(summary).toMatchObject({ totalRows: 4, validRows: 2, invalidRows: 2, parseErrors: 1, invalidLines: [3, 4] });
+      expect(summary.totalValidations).toBe(6);
+      expect(summary.successRate).toBeCloseTo(4 / 6);
+      expect(summary.topErrors).toEqual(expect.arrayContaining([{ field: 'name', errorCount: 1 }, { field: 'age', errorCount: 1 }]));
+      expect(summary.validationTrends).toHaveLength(1);
+      expect(validator.getValidationStats().totalValidations).toBe(0);
+
+      const csv = 'name,age,notes\r\nAda,36,"likes ""math"",\nand engines"\n,12,\nBob,7\nCy,x,\n';
+      const csvRows: any[] = [];
+      const csvSummary = await validator.validateStream(Readable.from([csv.slice(0, 20), csv.slice(20)]), {
+        format: 'csv',
+        onRow: row => { csvRows.push(row); }
+      });
+
+      expect(csvRows.map(row => [row.line, row.isValid])).toEqual([[2, true], [4, false], [5, false], [6, false]]);
+      expect(csvRows[0].data).toEqual({ name: 'Ada', age: 36, notes: 'likes "math",\nand engines' });
+      expect(csvRows[1].errors).toEqual({ name: ['This field is required'] });
+      expect(csvRows[2].errors).toEqual({ _row: ['Expected 3 columns but found 2'] });
+      expect(csvRows[3].errors).toEqual({ age: ['Must be an integer'] });
+      expect(csvSummary.commonErrors).toContain('Must be an integer');
+
+      await expect(validator.validateStream(['x'.repeat(50)], { maxLineLength: 10 })).rejects.toThrow('exceeds the maximum length');
+      // Untrusted keys are plain data
+      const hostile = await validator.validateStream(['{"hasOwnProperty":1,"name":"x"}\n{"name":"y"}\n']);
+      expect([hostile.totalRows, hostile.validRows]).toEqual([2, 2]);
+      const injected: any[] = [];
+      await validator.validateStream(['{"age":"1","__proto__":{"name":"x"}}\n'], { onRow: row => { injected.push(row); } });
+      expect(injected[0].errors).toEqual({ name: ['This field is required'] });
+      const csvInjected: any[] = [];
+      await validator.validateStream(['__proto__,age\nx,1\n'], { format: 'csv', onRow: row => { csvInjected.push(row); } });
+      expect(Object.keys(csvInjected[0].data)).toEqual(['__proto__', 'age']);
+      expect(csvInjected[0].errors).toEqual({ name: ['This field is required'] });
+
+      await expect(validator.validateStream(['{}\n' + 'x'.repeat(50) + '\n{}\n'], { maxLineLength: 10 }))
+        .rejects.toThrow('Line 2 exceeds the maximum length');
+      // Short lines cannot grow one quoted CSV record past the limit
+      await expect(validator.validateStream(['name\n"a' + '\n",x,x,"a'.repeat(10) + '"\n'], { format: 'csv', maxLineLength: 10 }))
+        .rejects.toThrow('Record starting on line 2 exceeds the maximum length of 10 characters');
+    });
+
+    test('should infer nested schemas with formats, enums, ranges and confidence', () => {
+      const statuses = ['active', 'pending', 'active', 'closed', 'pending', 'active'];
+      const samples = statuses.map((status, i) => ({
+        id: `123e4567-e89b-12d3-a456-42661417400${i}`,
+        status,
+        score: i === 5 ? 'n/a' : i * 10,
+        createdAt: `2024-01-0${i + 1}T09:30:00Z`,
+        address: { city: `City ${i}`, zip: i % 2 ? null : `1000${i}`, ip: `10.0.0.${i}` },
+        tags: i === 0 ? [] : [{ name: `tag${i}`, weight: i }]
+      }));
+
+      const validator = new DataValidator();
+      const schema = validator.inferSchema(samples);
+
+      expect(schema.id).toMatchObject({ type: 'string', format: 'uuid', required: true, confidence: 1, samples: 6 });
+      expect(schema.status).toMatchObject({ type: 'string', enum: ['active', 'closed', 'pending'], minLength: 6, maxLength: 7 });
+      expect(schema.score).toMatchObject({ type: 'number', min: 0, max: 40 });
+      expect(schema.score.confidence).toBeCloseTo(5 / 6);
+      expect(schema.createdAt.format).toBe('datetime');
+      expect(schema.address.properties).toMatchObject({
+        city: { type: 'string', required: true },
+        zip: { type: 'string', nullable: true, required: false },
+        ip: { format: 'ipv4' }
+      });
+      expect(schema.tags).toMatchObject({
+        type: 'array',
+        minItems: 0,
+        maxItems: 1,
+        items: { type: 'object', properties: { name: { type: 'string' }, weight: { type: 'number', min: 1, max: 5 } } }
+      });
+
+      // The mixed-type score only gets type and range rules once the confidence bar allows it
+      validator.generateRulesFromSchema(schema);
+      expect(validator.validateBatch(samples).summary.invalidObjects).toBe(0);
+      validator.generateRulesFromSchema({ score: schema.score }, { minConfidence: 0.8 });
+      expect(validator.validateBatch(samples).results[5].errors).toEqual({ score: ['Must be a number'] });
+      expect(validator.validateObject({ ...samples[0], status: 'deleted', address: { city: 'City 9', zip: null, ip: '10.0.0.x' } }).errors).toEqual({
+        status: ['Must be one of: "active", "closed", "pending"'],
+        'address.ip': ['Must be a valid IPv4 address']
+      });
+
+      // Generated rules render through the catalog and export their bounds
+      DataValidator.registerMessages('es', { 'max.items': 'Como máximo {max, plural, one {# elemento} other {# elementos}}' });
+      const tooMany = { ...samples[0], tags: [{}, {}] };
+      expect(validator.validateObject(tooMany).errors.tags).toEqual(['Must be no more than 1 item']);
+      expect(validator.validateObject(tooMany, { locale: 'es' }).errors.tags).toEqual(['Como máximo 1 elemento']);
+      expect(validator.toJSONSchema().properties).toMatchObject({
+        status: { type: 'string', minLength: 6, maxLength: 7, enum: ['active', 'closed', 'pending'] },
+        tags: { type: 'array', minItems: 0, maxItems: 1 },
+        address: { properties: { zip: { type: ['string', 'null'] } } }
+      });
+
+      expect(validator.toJSONSchema(schema).properties).toMatchObject({
+        createdAt: { type: 'string', format: 'date-time' },
+        address: { type: 'object', required: ['city', 'ip'], properties: { zip: { type: ['string', 'null'] } } },
+        tags: { type: 'array', items: { type: 'object', properties: { weight: { type: 'number' } } } }
+      });
+
+      // A sampled `__proto__` key is a field like any other
+      const untrusted = validator.inferSchema([JSON.parse('{"__proto__":{"role":"admin"},"id":1}')]);
+      expect(Object.getPrototypeOf(untrusted)).toBe(Object.prototype);
+      expect(Object.keys(untrusted)).toEqual(['__proto__', 'id']);
+      expect(validator.toTypeScript(untrusted)).toContain('  __proto__: RootProto;');
+
+      // Bounds and item samples scale to large samples
+      const large = validator.inferSchema(
+        Array.from({ length: 200000 }, (_, i) => ({ n: i, list: [i, i] })),
+        { sampleSize: 200000 }
+      );
+      expect(large.n).toMatchObject({ min: 0, max: 199999 });
+      expect(large.list).toMatchObject({ minItems: 2, maxItems: 2, items: { type: 'number', samples: 200000 } });
+    });
+
+    test('should generate TypeScript declarations and matching rules from schemas', () => {
+      const samples = [
+        { id: 1, email: 'a@b.co', role: 'admin', score: 3, address: { city: 'X', zip: null }, tags: [{ name: 'a' }], 'first-name': 'A' },
+        { id: 2, email: 'c@d.io', role: 'member', score: 'high', address: { city: 'Y', zip: '1' }, tags: [], nickname: 'n' },
+        { id: 3, email: 'e@f.io', role: 'admin', score: 5, address: { city: 'Z', zip: '2' }, tags: [{ name: 'b' }] },
+        { id: 4, email: 'g@h.io', role: 'member', score: 7, address: { city: 'W', zip: '3' }, tags: [] }
+      ];
+      const validator = new DataValidator();
+      const schema = validator.inferSchema(samples);
+
+      expect(validator.toTypeScript(schema, { rootName: 'User' })).toBe([
+        'export interface User {',
+        '  id: number;',
+        '  /** Format: email */',
+        '  email: string;',
+        '  role: "admin" | "member";',
+        '  score: number | string;',
+        '  address: UserAddress;',
+        '  tags: UserTagsItem[];',
+        '  "first-name"?: string;',
+        '  nickname?: string;',
+        '}',
+        '',
+        'export interface UserAddress {',
+        '  city: string;',
+        '  zip?: string | null;',
+        '}',
+        '',
+        'export interface UserTagsItem {',
+        '  name: string;',
+        '}',
+        ''
+      ].join('\n'));
+
+      const labels = ['it\'s "a"\n', '\\'];
+      const quoted = validator.inferSchema([...labels, ...labels].map(label => ({ label })));
+      expect(validator.toTypeScript(quoted)).toContain('  label: "\\\\" | "it\'s \\"a\\"\\n";');
+      expect(() => validator.toTypeScript(schema, { rootName: 'User; declare const x: any' })).toThrow('Invalid TypeScript type name');
+      const odd = { a: { type: 'string; }\ndeclare const x: any; //', required: true }, b: { types: ['any', 'number'], type: 'number', required: true } };
+      expect(validator.toTypeScript(odd)).toBe('export interface Root {\n  a: unknown;\n  b: unknown | number;\n}\n');
+
+      const structure = ObjectUtils.schema({ id: 1, meta: { ok: true, list: [1] }, none: null, empty: [] });
+      expect(validator.toTypeScript(structure, { rootName: 'Payload', declaration: 'type', exported: false })).toBe([
+        'type Payload = {',
+        '  id: number;',
+        '  meta: PayloadMeta;',
+        '  none: null;',
+        '  empty: unknown[];',
+        '};',
+        '',
+        'type PayloadMeta = {',
+        '  ok: boolean;',
+        '  list: number[];',
+        '};',
+        ''
+      ].join('\n'));
+
+      const rules = new DataValidator();
+      rules.generateRulesFromSchema(structure);
+      expect(rules.validateObject({ id: 2, meta: { ok: false, list: [3] }, none: null, empty: [] }).isValid).toBe(true);
+      expect(rules.validateObject({ id: '2', meta: { ok: 'yes', list: ['x'] }, empty: [] }).errors).toEqual({
+        id: ['Must be a number'],
+        'meta.ok': ['Must be true or false'],
+        'meta.list[0]': ['Must be a number'],
+        none: ['This field is required']
+      });
+      expect(rules.validateObject({ id: 2, meta: { ok: true, list: 'x' }, none: null, empty: [] }).errors).toEqual({
+        'meta.list': ['Must be an array']
+      });
+    });
+  });
 });
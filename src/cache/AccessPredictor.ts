@@ -0,0 +1,99 @@
+/**
+ * First-order Markov model of key-to-key access sequences. Each key keeps
+ * counts of the keys read immediately after it; counts are halved once a key
+ * has seen enough transitions so the model follows changing access patterns.
+ */
+export class MarkovAccessPredictor {
+  private transitions = new Map<string, { total: number; next: Map<string, number> }>();
+  private previousKey?: string;
+
+  constructor(
+    private maxStates = 10000,
+    private maxSuccessors = 8,
+    private decayThreshold = 256
+  ) {}
+
+  get size(): number {
+    return this.transitions.size;
+  }
+
+  /**
+   * Record an access, learning the transition from the previous access
+   */
+  record(key: string): void {
+    const previous = this.previousKey;
+    this.previousKey = key;
+    if (previous === undefined || previous === key) return;
+
+    let state = this.transitions.get(previous);
+    if (state) {
+      // Re-insert so the least recently used state is evicted first
+      this.transitions.delete(previous);
+    } else {
+      state = { total: 0, next: new Map() };
+      if (this.transitions.size >= this.maxStates) {
+        this.transitions.delete(this.transitions.keys().next().value!);
+      }
+    }
+    this.transitions.set(previous, state);
+
+    if (!state.next.has(key) && state.next.size >= this.maxSuccessors) {
+      this.dropRarestSuccessor(state);
+    }
+    state.next.set(key, (state.next.get(key) || 0) + 1);
+    state.total++;
+
+    if (state.total >= this.decayThreshold) {
+      this.decay(state);
+    }
+  }
+
+  /**
+   * Most likely keys to be accessed after `key`, most probable first
+   */
+  predict(key: string, limit: number, minProbability = 0): Array<{ key: string; probability: number }> {
+    const state = this.transitions.get(key);
+    if (!state || state.total === 0) return [];
+
+    return Array.from(state.next.entries())
+      .map(([next, count]) => ({ key: next, probability: count / state.total }))
+      .filter(({ probability }) => probability >= minProbability)
+      .sort((a, b) => b.probability - a.probability)
+      .slice(0, limit);
+  }
+
+  clear(): void {
+    this.transitions.clear();
+    this.previousKey = undefined;
+  }
+
+  private dropRarestSuccessor(state: { total: number; next: Map<string, number> }): void {
+    let rarest: string | undefined;
+    let rarestCount = Infinity;
+
+    for (const [key, count] of state.next.entries()) {
+      if (count < rarestCount) {
+        rarest = key;
+        rarestCount = count;
+      }
+    }
+
+    if (rarest !== undefined) {
+      state.next.delete(rarest);
+      state.total -= rarestCount;
+    }
+  }
+
+  private decay(state: { total: number; next: Map<string, number> }): void {
+    state.total = 0;
+    for (const [key, count] of Array.from(state.next.entries())) {
+      const halved = count >> 1;
+      if (halved === 0) {
+        state.next.delete(key);
+      } else {
+        state.next.set(key, halved);
+        state.total += halved;
+      }
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import { CacheCoherenceMessage, CacheCoherenceTransport } from '../types';
+
+type CoherenceHandler = (message: CacheCoherenceMessage) => void;
+
+/**
+ * Coherence transport for caches living in the same JavaScript realm. Share
+ * one bus between every SmartCache that should stay in sync.
+ */
+export class InProcessCacheTransport implements CacheCoherenceTransport {
+  private handlers = new Set<CoherenceHandler>();
+
+  publish(message: CacheCoherenceMessage): void {
+    // Copy so handlers that unsubscribe during delivery don't skip peers
+    for (const handler of Array.from(this.handlers)) {
+      handler(message);
+    }
+  }
+
+  subscribe(handler: CoherenceHandler): () => void {
+    this.handlers.add(handler);
+    return () => {
+      this.handlers.delete(handler);
+    };
+  }
+}
+
+/**
+ * Coherence transport over a named BroadcastChannel, reaching caches in other
+ * tabs, workers or worker threads that open a channel with the same name
+ */
+export class BroadcastChannelCacheTransport implements CacheCoherenceTransport {
+  private channel: any;
+
+  constructor(name = 'smartcache') {
+    const Channel = typeof BroadcastChannel !== 'undefined'
+      ? BroadcastChannel
+      : typeof require !== 'undefined' ? require('worker_threads').BroadcastChannel : undefined;
+
+    if (!Channel) {
+      throw new Error('BroadcastChannel is not available in this environment');
+    }
+
+    this.channel = new Channel(name);
+    // Don't keep Node.js processes alive just for cache coherence
+    this.channel.unref?.();
+  }
+
+  publish(message: CacheCoherenceMessage): void {
+    this.channel.postMessage(message);
+  }
+
+  subscribe(handler: CoherenceHandler): () => void {
+    const listener = (event: any) => handler(event.data);
+    this.channel.addEventListener('message', listener);
+    return () => this.channel.removeEventListener('message', listener);
+  }
+
+  close(): void {
+    this.channel.close();
+  }
+}
+
+/**
+ * Coherence transport over a MessagePort, such as one end of a MessageChannel,
+ * a `worker_threads` parentPort or a Worker instance
+ */
+export class MessagePortCacheTransport implements CacheCoherenceTransport {
+  constructor(private port: any) {}
+
+  publish(message: CacheCoherenceMessage): void {
+    this.port.postMessage(message);
+  }
+
+  subscribe(handler: CoherenceHandler): () => void {
+    // Node.js ports deliver the payload directly; DOM ports wrap it in an event
+    if (typeof this.port.on === 'function') {
+      const listener = (data: any) => handler(data);
+      this.port.on('message', listener);
+      return () => this.port.off('message', listener);
+    }
+
+    const listener = (event: any) => handler(event.data);
+    this.port.addEventListener('message', listener);
+    this.port.start?.();
+    return () => this.port.removeEventListener('message', listener);
+  }
+
+  close(): void {
+    this.port.close?.();
+  }
+}
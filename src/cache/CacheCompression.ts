@@ -0,0 +1,109 @@
+import { CompressionAlgorithm } from '../types';
+import { CryptoUtils } from '../crypto/CryptoUtils';
+
+/**
+ * Compression helpers for cache payloads, using Node's zlib when available
+ * and the CompressionStream API in browsers
+ */
+export class CacheCompression {
+  private static zlib: any;
+
+  /**
+   * Compress a string and return the result as Base64
+   */
+  static async compress(data: string, algorithm: CompressionAlgorithm = 'gzip'): Promise<string> {
+    const input = new TextEncoder().encode(data);
+    const zlib = this.getZlib();
+
+    if (zlib) {
+      const method = algorithm === 'brotli' ? 'brotliCompress' : algorithm === 'deflate' ? 'deflate' : 'gzip';
+      const output: Uint8Array = await this.callZlib(zlib, method, input);
+      return this.toBase64(output);
+    }
+
+    const output = await this.pipeThroughStream(input, algorithm, 'compress');
+    return this.toBase64(output);
+  }
+
+  /**
+   * Decompress a Base64 payload produced by `compress`
+   */
+  static async decompress(data: string, algorithm: CompressionAlgorithm = 'gzip'): Promise<string> {
+    const input = this.fromBase64(data);
+    const zlib = this.getZlib();
+
+    if (zlib) {
+      const method = algorithm === 'brotli' ? 'brotliDecompress' : algorithm === 'deflate' ? 'inflate' : 'gunzip';
+      const output: Uint8Array = await this.callZlib(zlib, method, input);
+      return new TextDecoder().decode(output);
+    }
+
+    const output = await this.pipeThroughStream(input, algorithm, 'decompress');
+    return new TextDecoder().decode(output);
+  }
+
+  /**
+   * Check whether an algorithm can be used in the current environment
+   */
+  static isSupported(algorithm: CompressionAlgorithm): boolean {
+    if (this.getZlib()) return true;
+    return algorithm !== 'brotli' && typeof CompressionStream !== 'undefined';
+  }
+
+  private static getZlib(): any {
+    if (this.zlib === undefined) {
+      this.zlib = null;
+      if (typeof require !== 'undefined') {
+        try {
+          this.zlib = require('zlib');
+        } catch (e) {
+          // Not running under Node.js
+        }
+      }
+    }
+    return this.zlib;
+  }
+
+  private static callZlib(zlib: any, method: string, input: Uint8Array): Promise<Uint8Array> {
+    return new Promise((resolve, reject) => {
+      zlib[method](input, (error: Error | null, result: Uint8Array) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(result);
+        }
+      });
+    });
+  }
+
+  private static async pipeThroughStream(
+    input: Uint8Array,
+    algorithm: CompressionAlgorithm,
+    direction: 'compress' | 'decompress'
+  ): Promise<Uint8Array> {
+    if (!this.isSupported(algorithm)) {
+      throw new Error(`Compression algorithm "${algorithm}" is not supported in this environment`);
+    }
+
+    const format = algorithm as 'gzip' | 'deflate';
+    const transform = direction === 'compress'
+      ? new CompressionStream(format)
+      : new DecompressionStream(format);
+    const stream = new Blob([input]).stream().pipeThrough(transform);
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+
+  private static toBase64(bytes: Uint8Array): string {
+    if (typeof Buffer !== 'undefined') {
+      return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString('base64');
+    }
+    return CryptoUtils.arrayBufferToBase64(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+  }
+
+  private static fromBase64(data: string): Uint8Array {
+    if (typeof Buffer !== 'undefined') {
+      return new Uint8Array(Buffer.from(data, 'base64'));
+    }
+    return new Uint8Array(CryptoUtils.base64ToArrayBuffer(data));
+  }
+}
@@ -0,0 +1,110 @@
+import { CacheEncryptionKey, CacheEncryptionOptions, EncryptedCacheEntry } from '../types';
+import { CryptoUtils } from '../crypto/CryptoUtils';
+
+/**
+ * AES-GCM keyring for persisted cache entries. Each record names the key it
+ * was encrypted with, so entries written under rotated-out keys stay readable
+ * while `previousKeys` still lists them.
+ */
+export class CacheEncryption {
+  private current: CacheEncryptionKey & { id: string };
+  private keys = new Map<string, CacheEncryptionKey>();
+  // Password-derived keys by `${id}:${salt}`; deriving is deliberately slow
+  private derivedKeys = new Map<string, Promise<{ key: CryptoKey; salt: string }>>();
+
+  constructor(options: CacheEncryptionOptions) {
+    this.current = this.register(options);
+    (options.previousKeys || []).forEach(key => this.register(key));
+  }
+
+  get keyId(): string {
+    return this.current.id;
+  }
+
+  static isEncrypted(record: any): record is EncryptedCacheEntry {
+    return !!record && typeof record === 'object' && typeof record.keyId === 'string' &&
+      typeof record.iv === 'string' && typeof record.tag === 'string' && typeof record.data === 'string';
+  }
+
+  /**
+   * Serialize and encrypt a value with the current key
+   */
+  async encrypt(value: any): Promise<EncryptedCacheEntry> {
+    const { key, salt } = await this.resolveKey(this.current);
+    const { encrypted, iv, tag } = await CryptoUtils.encrypt(JSON.stringify(value), key);
+
+    return {
+      keyId: this.current.id,
+      salt,
+      iv: CryptoUtils.arrayBufferToBase64(iv.buffer as ArrayBuffer),
+      tag: CryptoUtils.arrayBufferToBase64(tag.buffer as ArrayBuffer),
+      data: CryptoUtils.arrayBufferToBase64(encrypted)
+    };
+  }
+
+  /**
+   * Decrypt a record written by `encrypt`. Throws if its key is unknown or
+   * the ciphertext fails authentication.
+   */
+  async decrypt<V = any>(record: EncryptedCacheEntry): Promise<V> {
+    const spec = this.keys.get(record.keyId);
+    if (!spec) {
+      throw new Error(`Unknown cache encryption key: ${record.keyId}`);
+    }
+
+    const { key } = await this.resolveKey(spec, record.salt);
+    const plaintext = await CryptoUtils.decrypt(
+      CryptoUtils.base64ToArrayBuffer(record.data),
+      key,
+      new Uint8Array(CryptoUtils.base64ToArrayBuffer(record.iv)),
+      new Uint8Array(CryptoUtils.base64ToArrayBuffer(record.tag))
+    );
+
+    return JSON.parse(plaintext);
+  }
+
+  /**
+   * Make `next` the key for new writes, keeping the old one for decryption
+   */
+  rotate(next: CacheEncryptionKey): void {
+    const id = next.id || 'default';
+    if (this.keys.has(id)) {
+      throw new Error(`Cache encryption key id already in use: ${id}`);
+    }
+    this.current = this.register(next);
+  }
+
+  private register(spec: CacheEncryptionKey): CacheEncryptionKey & { id: string } {
+    if (!spec.key && !spec.password) {
+      throw new Error('Cache encryption requires a key or password');
+    }
+
+    const registered = { ...spec, id: spec.id || 'default' };
+    this.keys.set(registered.id, registered);
+    return registered;
+  }
+
+  private resolveKey(spec: CacheEncryptionKey, salt?: string): Promise<{ key: CryptoKey; salt?: string }> {
+    if (spec.key) {
+      return Promise.resolve({ key: spec.key });
+    }
+
+    // Without a salt this is the current key for new writes: derive once with a random salt
+    const cacheKey = `${spec.id}:${salt || ''}`;
+    let derived = this.derivedKeys.get(cacheKey);
+
+    if (!derived) {
+      derived = CryptoUtils.deriveKey(
+        spec.password!,
+        salt ? new Uint8Array(CryptoUtils.base64ToArrayBuffer(salt)) : undefined
+      ).then(result => ({ key: result.key, salt: CryptoUtils.arrayBufferToBase64(result.salt.buffer as ArrayBuffer) }));
+
+      this.derivedKeys.set(cacheKey, derived);
+      if (!salt) {
+        derived.then(result => this.derivedKeys.set(`${spec.id}:${result.salt}`, derived!), () => undefined);
+      }
+    }
+
+    return derived;
+  }
+}
@@ -0,0 +1,304 @@
+import { CacheStore, FileCacheStoreFormat } from '../types';
+
+/**
+ * In-memory cache store, useful for tests and as a default persistence target
+ */
+export class MemoryCacheStore<V = any> implements CacheStore<V> {
+  private data = new Map<string, V>();
+
+  async get(key: string): Promise<V | undefined> {
+    return this.data.get(key);
+  }
+
+  async set(key: string, value: V): Promise<void> {
+    this.data.set(key, value);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.data.delete(key);
+  }
+
+  async keys(): Promise<string[]> {
+    return Array.from(this.data.keys());
+  }
+
+  async clear(): Promise<void> {
+    this.data.clear();
+  }
+}
+
+/**
+ * Cache store backed by the Web Storage API (localStorage / sessionStorage).
+ * Every entry is stored under its own prefixed key.
+ */
+export class WebStorageCacheStore<V = any> implements CacheStore<V> {
+  constructor(private storage: Storage, private prefix: string = 'smartcache:') {}
+
+  async get(key: string): Promise<V | undefined> {
+    const raw = this.storage.getItem(this.prefix + key);
+    if (raw === null) return undefined;
+
+    try {
+      return JSON.parse(raw);
+    } catch (e) {
+      return undefined;
+    }
+  }
+
+  async set(key: string, value: V): Promise<void> {
+    this.storage.setItem(this.prefix + key, JSON.stringify(value));
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const exists = this.storage.getItem(this.prefix + key) !== null;
+    this.storage.removeItem(this.prefix + key);
+    return exists;
+  }
+
+  async keys(): Promise<string[]> {
+    const keys: string[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key && key.startsWith(this.prefix)) {
+        keys.push(key.slice(this.prefix.length));
+      }
+    }
+    return keys;
+  }
+
+  async clear(): Promise<void> {
+    const keys = await this.keys();
+    keys.forEach(key => this.storage.removeItem(this.prefix + key));
+  }
+}
+
+/**
+ * File-system cache store for Node.js.
+ *
+ * - `ndjson` (default): an append-only log of set/delete records, one line
+ *   per change, compacted on load
+ * - `directory`: one JSON shard per key inside a directory
+ * - `json`: a single JSON document; changes made while a rewrite is in
+ *   flight are coalesced into the next one
+ */
+export class FileCacheStore<V = any> implements CacheStore<V> {
+  private path: string;
+  private format: FileCacheStoreFormat;
+  private loading?: Promise<Map<string, V>>;
+  private pendingSave?: Promise<void>;
+  private lastSave: Promise<void> = Promise.resolve();
+  // Loaded lazily so bundles for browsers never pull in Node.js modules
+  private fs: typeof import('fs').promises;
+  private pathModule: typeof import('path');
+
+  constructor(options: { path: string; format?: FileCacheStoreFormat }) {
+    if (typeof require === 'undefined') {
+      throw new Error('FileCacheStore requires a Node.js environment');
+    }
+
+    this.fs = (require('fs') as typeof import('fs')).promises;
+    this.pathModule = require('path') as typeof import('path');
+    this.path = options.path;
+    this.format = options.format || 'ndjson';
+  }
+
+  async get(key: string): Promise<V | undefined> {
+    if (this.format === 'directory') {
+      const raw = await this.readFile(this.shardPath(key));
+      return raw === undefined ? undefined : JSON.parse(raw);
+    }
+
+    const data = await this.load();
+    return data.get(key);
+  }
+
+  async set(key: string, value: V): Promise<void> {
+    if (this.format === 'directory') {
+      await this.fs.mkdir(this.path, { recursive: true });
+      await this.writeAtomic(this.shardPath(key), JSON.stringify(value));
+      return;
+    }
+
+    const data = await this.load();
+    data.set(key, value);
+
+    if (this.format === 'ndjson') {
+      await this.append({ key, value });
+    } else {
+      await this.save(data);
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    if (this.format === 'directory') {
+      try {
+        await this.fs.unlink(this.shardPath(key));
+        return true;
+      } catch (error: any) {
+        if (error.code === 'ENOENT') return false;
+        throw error;
+      }
+    }
+
+    const data = await this.load();
+    if (!data.delete(key)) return false;
+
+    if (this.format === 'ndjson') {
+      await this.append({ key, deleted: true });
+    } else {
+      await this.save(data);
+    }
+    return true;
+  }
+
+  async keys(): Promise<string[]> {
+    if (this.format === 'directory') {
+      try {
+        const files: string[] = await this.fs.readdir(this.path);
+        return files
+          .filter(file => file.endsWith('.json'))
+          .map(file => decodeURIComponent(file.slice(0, -'.json'.length)));
+      } catch (error: any) {
+        if (error.code === 'ENOENT') return [];
+        throw error;
+      }
+    }
+
+    const data = await this.load();
+    return Array.from(data.keys());
+  }
+
+  async clear(): Promise<void> {
+    if (this.format === 'directory') {
+      const keys = await this.keys();
+      await Promise.all(keys.map(key => this.delete(key)));
+      return;
+    }
+
+    const data = await this.load();
+    data.clear();
+
+    if (this.format === 'ndjson') {
+      await this.writeAtomic(this.path, '');
+    } else {
+      await this.save(data);
+    }
+  }
+
+  /**
+   * Rewrite the NDJSON log so it only contains live entries
+   */
+  async compact(): Promise<void> {
+    if (this.format !== 'ndjson') return;
+    await this.writeLog(await this.load());
+  }
+
+  /**
+   * Read the file once; concurrent callers share the same read
+   */
+  private load(): Promise<Map<string, V>> {
+    if (!this.loading) {
+      this.loading = this.read();
+      // Let a failed read be retried instead of caching the failure
+      this.loading.catch(() => {
+        this.loading = undefined;
+      });
+    }
+    return this.loading;
+  }
+
+  private async read(): Promise<Map<string, V>> {
+    const data = new Map<string, V>();
+    const raw = await this.readFile(this.path);
+
+    if (raw && this.format === 'ndjson') {
+      let records = 0;
+      for (const line of raw.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          const record = JSON.parse(line);
+          records++;
+          if (record.deleted) {
+            data.delete(record.key);
+          } else {
+            data.set(record.key, record.value);
+          }
+        } catch (e) {
+          // Skip a partially written trailing line
+        }
+      }
+
+      // Compact when the log carries a lot of overwritten or deleted records
+      if (records > data.size * 2) {
+        await this.writeLog(data);
+      }
+      return data;
+    }
+
+    if (raw) {
+      try {
+        for (const [key, value] of JSON.parse(raw)) {
+          data.set(key, value);
+        }
+      } catch (e) {
+        console.warn('Failed to parse cache file:', e);
+      }
+    }
+
+    return data;
+  }
+
+  private async writeLog(data: Map<string, V>): Promise<void> {
+    const lines = Array.from(data.entries())
+      .map(([key, value]) => JSON.stringify({ key, value }) + '\n');
+    await this.writeAtomic(this.path, lines.join(''));
+  }
+
+  /**
+   * Rewrite the JSON document. Writes run one at a time, and every change made
+   * before a write starts shares it, so a burst of changes costs two rewrites
+   * at most.
+   */
+  private save(data: Map<string, V>): Promise<void> {
+    if (this.pendingSave) return this.pendingSave;
+
+    const save = this.lastSave.then(() => {
+      // Changes from here on need another write
+      this.pendingSave = undefined;
+      return this.writeAtomic(this.path, JSON.stringify(Array.from(data.entries())));
+    });
+
+    this.pendingSave = save;
+    this.lastSave = save.then(() => undefined, () => undefined);
+    return save;
+  }
+
+  private async append(record: any): Promise<void> {
+    await this.ensureParentDir(this.path);
+    await this.fs.appendFile(this.path, JSON.stringify(record) + '\n');
+  }
+
+  private async readFile(file: string): Promise<string | undefined> {
+    try {
+      return await this.fs.readFile(file, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  private async writeAtomic(file: string, contents: string): Promise<void> {
+    await this.ensureParentDir(file);
+    const tmp = `${file}.${Date.now()}.${Math.random().toString(36).slice(2)}.tmp`;
+    await this.fs.writeFile(tmp, contents);
+    await this.fs.rename(tmp, file);
+  }
+
+  private async ensureParentDir(file: string): Promise<void> {
+    await this.fs.mkdir(this.pathModule.dirname(file), { recursive: true });
+  }
+
+  private shardPath(key: string): string {
+    return this.pathModule.join(this.path, encodeURIComponent(key) + '.json');
+  }
+}
@@ -0,0 +1,329 @@
+import { EvictionPolicy } from '../types';
+
+/**
+ * Least-recently-used eviction. A Map keeps keys in recency order, so every
+ * operation is O(1).
+ */
+export class LRUEvictionPolicy implements EvictionPolicy {
+  readonly name = 'lru';
+  private order = new Map<string, true>();
+
+  onInsert(key: string): void {
+    this.order.delete(key);
+    this.order.set(key, true);
+  }
+
+  onAccess(key: string): void {
+    if (!this.order.has(key)) return;
+    this.order.delete(key);
+    this.order.set(key, true);
+  }
+
+  onRemove(key: string): void {
+    this.order.delete(key);
+  }
+
+  selectVictim(): string | undefined {
+    return this.order.keys().next().value;
+  }
+
+  clear(): void {
+    this.order.clear();
+  }
+}
+
+/**
+ * Least-frequently-used eviction with O(1) frequency buckets. Ties within a
+ * bucket are broken by recency (oldest first).
+ */
+export class LFUEvictionPolicy implements EvictionPolicy {
+  readonly name = 'lfu';
+  private frequencies = new Map<string, number>();
+  private buckets = new Map<number, Set<string>>();
+  private minFrequency = 0;
+
+  onInsert(key: string): void {
+    this.onRemove(key);
+    this.frequencies.set(key, 1);
+    this.getBucket(1).add(key);
+    this.minFrequency = 1;
+  }
+
+  onAccess(key: string): void {
+    const frequency = this.frequencies.get(key);
+    if (frequency === undefined) return;
+
+    this.removeFromBucket(key, frequency);
+    if (this.minFrequency === frequency && !this.buckets.has(frequency)) {
+      this.minFrequency = frequency + 1;
+    }
+
+    this.frequencies.set(key, frequency + 1);
+    this.getBucket(frequency + 1).add(key);
+  }
+
+  onRemove(key: string): void {
+    const frequency = this.frequencies.get(key);
+    if (frequency === undefined) return;
+
+    this.frequencies.delete(key);
+    this.removeFromBucket(key, frequency);
+  }
+
+  selectVictim(): string | undefined {
+    if (this.frequencies.size === 0) return undefined;
+
+    // minFrequency goes stale after explicit removals; recover lazily
+    if (!this.buckets.has(this.minFrequency)) {
+      this.minFrequency = Math.min(...Array.from(this.buckets.keys()));
+    }
+
+    return this.buckets.get(this.minFrequency)!.values().next().value;
+  }
+
+  clear(): void {
+    this.frequencies.clear();
+    this.buckets.clear();
+    this.minFrequency = 0;
+  }
+
+  private getBucket(frequency: number): Set<string> {
+    let bucket = this.buckets.get(frequency);
+    if (!bucket) {
+      bucket = new Set();
+      this.buckets.set(frequency, bucket);
+    }
+    return bucket;
+  }
+
+  private removeFromBucket(key: string, frequency: number): void {
+    const bucket = this.buckets.get(frequency);
+    if (!bucket) return;
+
+    bucket.delete(key);
+    if (bucket.size === 0) {
+      this.buckets.delete(frequency);
+    }
+  }
+}
+
+/**
+ * Count-min sketch with 4-bit counters and periodic halving, used by W-TinyLFU
+ * to estimate access frequency in constant space
+ */
+class FrequencySketch {
+  private static readonly DEPTH = 4;
+  private static readonly SEEDS = [0x9747b28c, 0x85ebca6b, 0xc2b2ae35, 0x27d4eb2f];
+  private counters: Uint8Array;
+  private mask: number;
+  private additions = 0;
+  private sampleSize: number;
+
+  constructor(capacity: number) {
+    let width = 16;
+    while (width < capacity) width <<= 1;
+
+    this.mask = width - 1;
+    this.counters = new Uint8Array(width * FrequencySketch.DEPTH);
+    this.sampleSize = Math.max(capacity, 16) * 10;
+  }
+
+  increment(key: string): void {
+    let incremented = false;
+
+    for (let row = 0; row < FrequencySketch.DEPTH; row++) {
+      const index = this.indexOf(key, row);
+      if (this.counters[index] < 15) {
+        this.counters[index]++;
+        incremented = true;
+      }
+    }
+
+    if (incremented && ++this.additions >= this.sampleSize) {
+      this.reset();
+    }
+  }
+
+  frequency(key: string): number {
+    let min = 15;
+    for (let row = 0; row < FrequencySketch.DEPTH; row++) {
+      min = Math.min(min, this.counters[this.indexOf(key, row)]);
+    }
+    return min;
+  }
+
+  clear(): void {
+    this.counters.fill(0);
+    this.additions = 0;
+  }
+
+  /**
+   * Halve every counter so old popularity decays
+   */
+  private reset(): void {
+    for (let i = 0; i < this.counters.length; i++) {
+      this.counters[i] >>= 1;
+    }
+    this.additions = Math.floor(this.additions / 2);
+  }
+
+  private indexOf(key: string, row: number): number {
+    // FNV-1a with a per-row seed
+    let hash = FrequencySketch.SEEDS[row];
+    for (let i = 0; i < key.length; i++) {
+      hash ^= key.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return row * (this.mask + 1) + ((hash >>> 0) & this.mask);
+  }
+}
+
+/**
+ * Window TinyLFU eviction: a small LRU admission window in front of a
+ * segmented LRU main region (probation + protected). When the cache is full,
+ * the window's oldest entry only displaces the main region's victim if the
+ * frequency sketch says it is more popular.
+ */
+export class WTinyLFUEvictionPolicy implements EvictionPolicy {
+  readonly name = 'w-tinylfu';
+  private window = new Map<string, true>();
+  private probation = new Map<string, true>();
+  private protectedRegion = new Map<string, true>();
+  private sketch: FrequencySketch;
+  private windowCapacity: number;
+  private protectedCapacity: number;
+  private mainCapacity: number;
+
+  constructor(capacity: number) {
+    this.windowCapacity = Math.max(1, Math.floor(capacity * 0.01));
+    this.mainCapacity = Math.max(1, capacity - this.windowCapacity);
+    this.protectedCapacity = Math.max(1, Math.floor(this.mainCapacity * 0.8));
+    this.sketch = new FrequencySketch(capacity);
+  }
+
+  onInsert(key: string): void {
+    this.onRemove(key);
+    this.sketch.increment(key);
+    this.window.set(key, true);
+
+    // While the main region has room, overflow from the window moves straight in
+    while (this.window.size > this.windowCapacity && this.mainSize() < this.mainCapacity) {
+      const oldest = this.oldest(this.window)!;
+      this.window.delete(oldest);
+      this.probation.set(oldest, true);
+    }
+  }
+
+  onAccess(key: string): void {
+    this.sketch.increment(key);
+
+    if (this.window.has(key)) {
+      this.touch(this.window, key);
+    } else if (this.probation.has(key)) {
+      this.probation.delete(key);
+      this.protectedRegion.set(key, true);
+
+      // Demote the oldest protected entry back to probation when over capacity
+      if (this.protectedRegion.size > this.protectedCapacity) {
+        const demoted = this.oldest(this.protectedRegion)!;
+        this.protectedRegion.delete(demoted);
+        this.probation.set(demoted, true);
+      }
+    } else if (this.protectedRegion.has(key)) {
+      this.touch(this.protectedRegion, key);
+    }
+  }
+
+  onRemove(key: string): void {
+    this.window.delete(key);
+    this.probation.delete(key);
+    this.protectedRegion.delete(key);
+  }
+
+  selectVictim(): string | undefined {
+    const mainVictim = this.oldest(this.probation) ?? this.oldest(this.protectedRegion);
+
+    // Room is made before the incoming key joins the window, so a full window
+    // means its oldest entry is about to overflow and must compete for admission
+    if (this.window.size >= this.windowCapacity || !mainVictim) {
+      const candidate = this.oldest(this.window);
+      if (!candidate || !mainVictim) return candidate ?? mainVictim;
+
+      // Admission: the more frequently used of the two survives
+      if (this.sketch.frequency(candidate) > this.sketch.frequency(mainVictim)) {
+        this.window.delete(candidate);
+        this.probation.set(candidate, true);
+        return mainVictim;
+      }
+      return candidate;
+    }
+
+    return mainVictim;
+  }
+
+  clear(): void {
+    this.window.clear();
+    this.probation.clear();
+    this.protectedRegion.clear();
+    this.sketch.clear();
+  }
+
+  private mainSize(): number {
+    return this.probation.size + this.protectedRegion.size;
+  }
+
+  private oldest(region: Map<string, true>): string | undefined {
+    return region.keys().next().value;
+  }
+
+  private touch(region: Map<string, true>, key: string): void {
+    region.delete(key);
+    region.set(key, true);
+  }
+}
+
+/**
+ * The original SmartCache heuristic: entries are scored by age, recency,
+ * access count, size and recent frequency. Scores are computed in batches
+ * covering 20% of the cache, so the sort cost is amortized across evictions.
+ */
+export class WeightedScoreEvictionPolicy implements EvictionPolicy {
+  readonly name = 'weighted';
+  private keys = new Set<string>();
+  private candidates: string[] = [];
+
+  constructor(private scoreEntries: () => Array<{ key: string; score: number }>) {}
+
+  onInsert(key: string): void {
+    this.keys.add(key);
+  }
+
+  onAccess(): void {
+    // Scores are computed lazily from live entry metadata
+  }
+
+  onRemove(key: string): void {
+    this.keys.delete(key);
+  }
+
+  selectVictim(): string | undefined {
+    while (this.candidates.length > 0) {
+      const key = this.candidates.pop()!;
+      if (this.keys.has(key)) return key;
+    }
+
+    if (this.keys.size === 0) return undefined;
+
+    // Higher score = more likely to evict; keep the top 20%, ordered so pop() yields the highest
+    const scores = this.scoreEntries().sort((a, b) => b.score - a.score);
+    const batchSize = Math.ceil(this.keys.size * 0.2);
+    this.candidates = scores.slice(0, batchSize).map(({ key }) => key).reverse();
+
+    return this.candidates.pop();
+  }
+
+  clear(): void {
+    this.keys.clear();
+    this.candidates = [];
+  }
+}
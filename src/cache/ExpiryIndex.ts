@@ -0,0 +1,98 @@
+export interface ExpiryRecord {
+  at: number;
+  key: string;
+  generation: number;
+}
+
+/**
+ * Min-heap of expiry deadlines keyed by cache key.
+ *
+ * Records are never updated in place: callers push a new record whenever an
+ * entry is written and validate popped records against the live entry's
+ * generation, which keeps pushes and pops at O(log n) even when deadlines
+ * slide on access. Records hold no values, so stale ones cost a few bytes
+ * until they are popped or compacted away.
+ */
+export class ExpiryIndex {
+  private heap: ExpiryRecord[] = [];
+
+  get size(): number {
+    return this.heap.length;
+  }
+
+  push(at: number, key: string, generation: number): void {
+    this.heap.push({ at, key, generation });
+    this.siftUp(this.heap.length - 1);
+  }
+
+  /**
+   * Remove and return every record with a deadline at or before `now`
+   */
+  popDue(now: number): ExpiryRecord[] {
+    const due: ExpiryRecord[] = [];
+
+    while (this.heap.length > 0 && this.heap[0].at <= now) {
+      due.push(this.pop()!);
+    }
+
+    return due;
+  }
+
+  /**
+   * Drop every record `isLive` rejects and rebuild the heap in O(n)
+   */
+  compact(isLive: (record: ExpiryRecord) => boolean): void {
+    this.heap = this.heap.filter(isLive);
+    for (let i = (this.heap.length >> 1) - 1; i >= 0; i--) {
+      this.siftDown(i);
+    }
+  }
+
+  clear(): void {
+    this.heap = [];
+  }
+
+  private pop(): ExpiryRecord | undefined {
+    const top = this.heap[0];
+    const last = this.heap.pop();
+
+    if (this.heap.length > 0 && last) {
+      this.heap[0] = last;
+      this.siftDown(0);
+    }
+
+    return top;
+  }
+
+  private siftUp(index: number): void {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.heap[parent].at <= this.heap[index].at) break;
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  private siftDown(index: number): void {
+    const length = this.heap.length;
+
+    while (true) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+
+      if (left < length && this.heap[left].at < this.heap[smallest].at) smallest = left;
+      if (right < length && this.heap[right].at < this.heap[smallest].at) smallest = right;
+      if (smallest === index) break;
+
+      this.swap(index, smallest);
+      index = smallest;
+    }
+  }
+
+  private swap(a: number, b: number): void {
+    const tmp = this.heap[a];
+    this.heap[a] = this.heap[b];
+    this.heap[b] = tmp;
+  }
+}
@@ -1,35 +1,128 @@
-import { CacheOptions, SmartCacheEntry } from '../types';
+import {
+  CacheCoherenceMessage,
+  CacheEncryptionKey,
+  CacheEvictionReason,
+  CacheLoadOptions,
+  CacheLookupResult,
+  CacheOptions,
+  CachePrefetchOptions,
+  CacheSetOptions,
+  CacheSnapshot,
+  CacheSnapshotExportOptions,
+  CacheSnapshotImportOptions,
+  CacheStore,
+  CompressionAlgorithm,
+  EncryptedCacheEntry,
+  EvictionPolicy,
+  EvictionPolicyName,
+  MemoizeOptions,
+  SmartCacheEntry,
+  SmartCacheEvents
+} from '../types';
+import { EventEmitter } from '../events/EventEmitter';
+import { CryptoUtils } from '../crypto/CryptoUtils';
+import { FileCacheStore, MemoryCacheStore, WebStorageCacheStore } from './CacheStore';
+import { CacheCompression } from './CacheCompression';
+import { CacheEncryption } from './CacheEncryption';
+import { ExpiryIndex } from './ExpiryIndex';
+import { MarkovAccessPredictor } from './AccessPredictor';
+import {
+  LFUEvictionPolicy,
+  LRUEvictionPolicy,
+  WeightedScoreEvictionPolicy,
+  WTinyLFUEvictionPolicy
+} from './EvictionPolicy';
+
+type EntryWriteOptions = CacheSetOptions & { staleWindow?: number; refreshAhead?: number; negative?: boolean };
 
 /**
- * Advanced Smart Cache with AI-powered eviction, compression, and multi-tier storage
+ * Advanced Smart Cache with AI-powered eviction, compression, and multi-tier storage.
+ * Emits typed lifecycle events: set, hit, miss, evict, expire and invalidate.
  */
-export class SmartCache<T = any> {
+export class SmartCache<T = any> extends EventEmitter {
+  private static readonly SNAPSHOT_VERSION = 1;
   private cache = new Map<string, SmartCacheEntry<T>>();
   private hitCount = 0;
   private missCount = 0;
   private compressionEnabled: boolean;
   private persistenceEnabled: boolean;
-  private storageType: 'memory' | 'localStorage' | 'sessionStorage';
+  private store?: CacheStore<SmartCacheEntry<T> | EncryptedCacheEntry>;
+  private encryption?: CacheEncryption;
+  private storeQueue: Promise<void> = Promise.resolve();
+  // Keys removed (or a clear) while persisted entries are loading, so the load does not revive them
+  private loadState?: { removed: Set<string>; cleared: boolean };
+  private ready: Promise<void> = Promise.resolve();
   private maxSize: number;
-  private ttl: number;
-  private compressionThreshold = 1024; // bytes
+  private maxBytes: number;
+  private totalBytes = 0;
+  private evictionPolicy: EvictionPolicy;
+  private evictionCounts: Record<string, number> = {};
+  private oversizedRejections = 0;
+  private defaultTtl: number;
+  private maxAge?: number;
+  private slidingExpiration: boolean;
+  private expiryIndex = new ExpiryIndex();
+  private entryGenerations = new Map<string, number>();
+  private nextGeneration = 0;
+  private compressionThreshold: number;
+  private compressionAlgorithm: CompressionAlgorithm;
+  private compressionFailures = 0;
   private accessPatterns = new Map<string, number[]>();
+  private inFlightLoads = new Map<string, Promise<T | undefined>>();
+  private tagIndex = new Map<string, Set<string>>();
+  private dependents = new Map<string, Set<string>>();
   private cleanupInterval: any;
+  private predictor?: MarkovAccessPredictor;
+  private prefetchOptions: CachePrefetchOptions = {};
+  private loader?: { load: (key: string) => Promise<T | undefined> | T | undefined; options: CacheLoadOptions };
+  private prefetchedKeys = new Set<string>();
+  private prefetchTimestamps: number[] = [];
+  private prefetchInFlight = 0;
+  private prefetchCounts = { issued: 0, completed: 0, hits: 0, failures: 0, skipped: 0 };
+  private coherenceEpoch = CryptoUtils.uuid();
+  private coherenceSequence = 0;
+  private lastSequenceByOrigin = new Map<string, { epoch?: string; sequence: number }>();
+  private remoteOrigin?: string;
+  private unsubscribeCoherence?: () => void;
+  readonly instanceId: string;
 
   constructor(private options: CacheOptions = {}) {
-    this.ttl = options.ttl || 300000; // 5 minutes default
+    super();
+    this.defaultTtl = options.ttl || 300000; // 5 minutes default
+    this.maxAge = options.maxAge;
+    this.slidingExpiration = options.slidingExpiration || false;
     this.maxSize = options.maxSize || 1000;
+    this.maxBytes = options.maxBytes ?? Infinity;
+    this.evictionPolicy = this.createEvictionPolicy(options.evictionPolicy || 'weighted');
     this.compressionEnabled = options.compression || false;
+    this.compressionThreshold = options.compressionThreshold ?? 1024; // bytes
+    this.compressionAlgorithm = options.compressionAlgorithm || 'gzip';
     this.persistenceEnabled = options.persistence || false;
-    this.storageType = options.storage || 'memory';
+    this.encryption = options.encryption ? new CacheEncryption(options.encryption) : undefined;
+    this.instanceId = options.instanceId || CryptoUtils.uuid();
+
+    if (options.prefetch) {
+      this.predictor = new MarkovAccessPredictor(this.maxSize * 10);
+      this.prefetchOptions = typeof options.prefetch === 'object' ? options.prefetch : {};
+    }
+
+    if (options.coherence) {
+      this.unsubscribeCoherence = options.coherence.subscribe(message => this.applyCoherenceMessage(message));
+    }
     
     if (this.persistenceEnabled) {
-      this.loadFromStorage();
+      this.store = this.createStore();
+      this.loadState = { removed: new Set(), cleared: false };
+      this.ready = this.loadFromStorage();
+      // Store writes wait for the initial load, which reads the same store
+      this.storeQueue = this.ready;
     }
 
     // Auto-cleanup expired entries
     if (typeof setInterval !== 'undefined') {
-      this.cleanupInterval = setInterval(() => this.cleanup(), this.ttl / 10);
+      this.cleanupInterval = setInterval(() => this.cleanup(), this.defaultTtl / 10);
+      // Don't keep Node.js processes alive just for cache maintenance
+      this.cleanupInterval?.unref?.();
     }
   }
 
@@ -37,80 +130,715 @@ export class SmartCache<T = any> {
    * Get value from cache with smart prefetching
    */
   async get(key: string): Promise<T | undefined> {
+    await this.ready;
+    this.trackAccess(key);
     const entry = this.cache.get(key);
     
     if (!entry) {
-      this.missCount++;
+      this.recordMiss(key);
       return undefined;
     }
 
-    // Check if expired
-    if (Date.now() - entry.timestamp > this.ttl) {
-      this.cache.delete(key);
-      this.missCount++;
+    // Check if expired (stale entries are kept around for getOrLoad)
+    const now = Date.now();
+    if (this.isExpired(entry, now)) {
+      if (!this.isRetained(entry, now)) {
+        this.expireEntry(key, entry);
+      }
+      this.recordMiss(key);
       return undefined;
     }
 
-    // Update access patterns for AI-powered eviction
-    this.updateAccessPattern(key);
-    
-    entry.accessCount++;
-    entry.lastAccessed = Date.now();
-    this.hitCount++;
+    this.recordHit(key, entry);
+    if (this.loader) {
+      this.refreshAhead(key, entry, now, () => this.loader!.load(key), this.loader.options);
+    }
+    return this.readValue(entry);
+  }
 
-    let value = entry.value;
-    
-    // Decompress if needed
-    if (this.compressionEnabled && this.isCompressed(value)) {
-      value = await this.decompress(value);
+  /**
+   * Look up a key, telling cached values, cached "not found" results and
+   * misses apart (all three read as `undefined` through `get`)
+   */
+  async lookup(key: string): Promise<CacheLookupResult<T>> {
+    const value = await this.get(key);
+    const entry = this.cache.get(key);
+
+    if (entry && !this.isExpired(entry, Date.now())) {
+      return entry.negative ? { status: 'negative' } : { status: 'hit', value: value as T };
     }
+    return { status: 'miss' };
+  }
 
-    return value;
+  /**
+   * Cache a "not found" result for a key, for `ttl` (default `negativeTtl`)
+   */
+  async setNegative(key: string, options: Pick<CacheSetOptions, 'ttl' | 'tags' | 'dependsOn'> = {}): Promise<void> {
+    await this.ready;
+    this.storeNegative(key, { ...options, ttl: options.ttl ?? this.options.negativeTtl });
+    this.publishCoherence({ op: 'set', key });
   }
 
   /**
-   * Set value in cache with intelligent compression and eviction
+   * True if the key holds a live "not found" entry
    */
-  async set(key: string, value: T, tags?: string[]): Promise<void> {
-    let finalValue = value;
-    let size = this.calculateSize(value);
+  isNegative(key: string): boolean {
+    const entry = this.cache.get(key);
+    return !!entry && entry.negative === true && !this.isExpired(entry, Date.now());
+  }
 
-    // Apply compression for large values
-    if (this.compressionEnabled && size > this.compressionThreshold) {
-      finalValue = await this.compress(value);
-      size = this.calculateSize(finalValue);
+  /**
+   * Set value in cache with intelligent compression and eviction.
+   * Accepts a tag list or per-entry options (ttl, sliding, maxAge, tags).
+   */
+  async set(key: string, value: T, options?: string[] | CacheSetOptions): Promise<void> {
+    await this.ready;
+    await this.writeEntry(key, value, Array.isArray(options) ? { tags: options } : options || {});
+    this.publishCoherence({ op: 'set', key });
+  }
+
+  /**
+   * Remaining lifetime of a key in milliseconds, or undefined if it is missing or expired
+   */
+  ttl(key: string): number | undefined {
+    const entry = this.cache.get(key);
+    if (!entry) return undefined;
+
+    const remaining = this.getExpiresAt(entry) - Date.now();
+    return remaining >= 0 ? remaining : undefined;
+  }
+
+  /**
+   * Extend a key's lifetime without reading it. Uses the entry's own TTL unless
+   * one is given; the absolute max age still applies. Returns false if the key
+   * is missing or already expired.
+   */
+  touch(key: string, ttl?: number): boolean {
+    const entry = this.cache.get(key);
+    const now = Date.now();
+    if (!entry || this.isExpired(entry, now)) return false;
+
+    if (ttl !== undefined) {
+      entry.ttl = ttl;
+    }
+    entry.expiresAt = this.capExpiry(entry, now + this.getEntryTtl(entry));
+    this.persistEntry(key, entry);
+    return true;
+  }
+
+  /**
+   * Remove a key and every entry that depends on it. Returns true if the key
+   * itself was present.
+   */
+  delete(key: string): boolean {
+    const existed = this.cache.has(key);
+    this.invalidate(key);
+    return existed;
+  }
+
+  /**
+   * Invalidate a key and cascade to entries declared with `dependsOn` it,
+   * directly or transitively. The parent does not need to be cached itself.
+   * Returns every removed key.
+   */
+  invalidate(key: string): string[] {
+    const removed: string[] = [];
+
+    if (this.cache.has(key)) {
+      this.removeEntry(key);
+      this.emitEvent('invalidate', { key, origin: this.remoteOrigin });
+      removed.push(key);
+    } else if (this.loadState) {
+      // The key may still be on its way in from storage
+      this.loadState.removed.add(key);
+      this.enqueueStoreOperation(store => store.delete(key));
+    }
+
+    removed.push(...this.invalidateDependents(key, new Set([key])));
+    this.publishCoherence({ op: 'delete', key });
+    return removed;
+  }
+
+  /**
+   * Declare that `key` is derived from `parentKey`, so invalidating the parent removes it
+   */
+  addDependency(key: string, parentKey: string): boolean {
+    const entry = this.cache.get(key);
+    if (!entry) return false;
+
+    entry.dependsOn = Array.from(new Set([...(entry.dependsOn || []), parentKey]));
+    this.linkDependency(key, parentKey);
+    this.persistEntry(key, entry);
+    return true;
+  }
+
+  /**
+   * Tags attached to a key, or undefined if it is not cached
+   */
+  getTags(key: string): string[] | undefined {
+    const entry = this.cache.get(key);
+    return entry ? entry.tags || [] : undefined;
+  }
+
+  /**
+   * Get a value, loading it on a miss. Concurrent loads for the same key are
+   * deduplicated; expired values can be served while a background refresh runs
+   * (`staleWhileRevalidate`) or when the loader fails (`staleIfError`). With
+   * `refreshAhead` (a fraction of the TTL), hits past that point of the entry's
+   * lifetime reload it in the background. A loader resolving `undefined` is
+   * cached as a negative entry for `negativeTtl` (per call or cache-wide);
+   * without one nothing is cached and any previous entry is removed.
+   */
+  async getOrLoad(key: string, loader: () => Promise<T> | T, options?: CacheLoadOptions): Promise<T>;
+  async getOrLoad(
+    key: string,
+    loader: () => Promise<T | undefined> | T | undefined,
+    options?: CacheLoadOptions
+  ): Promise<T | undefined>;
+  async getOrLoad(
+    key: string,
+    loader: () => Promise<T | undefined> | T | undefined,
+    options: CacheLoadOptions = {}
+  ): Promise<T | undefined> {
+    await this.ready;
+    this.trackAccess(key);
+    const entry = this.cache.get(key);
+    const now = Date.now();
+
+    if (entry && !this.isExpired(entry, now)) {
+      this.recordHit(key, entry);
+      this.refreshAhead(key, entry, now, loader, options);
+      return this.readValue(entry);
+    }
+
+    const staleFor = entry ? now - this.getExpiresAt(entry) : Infinity;
+
+    if (entry && options.staleWhileRevalidate && staleFor <= options.staleWhileRevalidate) {
+      this.load(key, loader, options).catch(() => undefined);
+      this.recordHit(key, entry, true);
+      return this.readValue(entry);
+    }
+
+    this.recordMiss(key);
+
+    try {
+      return await this.load(key, loader, options);
+    } catch (error) {
+      if (entry && options.staleIfError && staleFor <= options.staleIfError && this.cache.get(key) === entry) {
+        return this.readValue(entry);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Register the loader used to prefetch keys predicted to be read next.
+   * Prefetching also requires the `prefetch` option.
+   */
+  registerLoader(loader: (key: string) => Promise<T | undefined> | T | undefined, options: CacheLoadOptions = {}): void {
+    this.loader = { load: loader, options };
+  }
+
+  private load(
+    key: string,
+    loader: () => Promise<T | undefined> | T | undefined,
+    options: CacheLoadOptions
+  ): Promise<T | undefined> {
+    const pending = this.inFlightLoads.get(key);
+    if (pending) return pending;
+
+    const promise = Promise.resolve()
+      .then(loader)
+      .then(async value => {
+        const writeOptions: EntryWriteOptions = {
+          ttl: options.ttl,
+          tags: options.tags,
+          dependsOn: options.dependsOn,
+          sliding: options.sliding,
+          maxAge: options.maxAge,
+          staleWindow: Math.max(options.staleWhileRevalidate || 0, options.staleIfError || 0) || undefined,
+          refreshAhead: options.refreshAhead
+        };
+
+        const negativeTtl = options.negativeTtl ?? this.options.negativeTtl;
+
+        if (value !== undefined) {
+          await this.writeEntry(key, value, writeOptions);
+        } else if (negativeTtl !== undefined) {
+          this.storeNegative(key, { ...writeOptions, ttl: negativeTtl });
+        } else {
+          // The source no longer has the key; publishes the delete to peers
+          this.delete(key);
+          return value;
+        }
+        this.publishCoherence({ op: 'set', key });
+        return value;
+      })
+      .finally(() => {
+        this.inFlightLoads.delete(key);
+      });
+
+    this.inFlightLoads.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Reload a fresh entry in the background once it has lived past its
+   * refresh-ahead fraction of the TTL, so hot keys never expire under readers
+   */
+  private refreshAhead(
+    key: string,
+    entry: SmartCacheEntry<T>,
+    now: number,
+    loader: () => Promise<T | undefined> | T | undefined,
+    options: CacheLoadOptions
+  ): void {
+    const threshold = options.refreshAhead ?? entry.refreshAhead;
+    if (!threshold || this.inFlightLoads.has(key)) return;
+
+    const remaining = this.getExpiresAt(entry) - now;
+    if (remaining <= this.getEntryTtl(entry) * (1 - threshold)) {
+      this.load(key, loader, { ...options, refreshAhead: threshold }).catch(() => undefined);
+    }
+  }
+
+  private storeNegative(key: string, options: EntryWriteOptions): void {
+    this.storeEntry(key, { value: undefined as unknown as T, size: 0 }, { ...options, negative: true });
+  }
+
+  private async writeEntry(key: string, value: T, options: EntryWriteOptions): Promise<void> {
+    this.storeEntry(key, await this.encodeValue(value), options);
+  }
+
+  private storeEntry(
+    key: string,
+    encoded: { value: T; size: number; originalSize?: number },
+    options: EntryWriteOptions
+  ): void {
+    const { tags } = options;
+    const { value: finalValue, size, originalSize } = encoded;
+
+    // A value larger than the whole byte budget is never cached
+    if (size > this.maxBytes) {
+      this.oversizedRejections++;
+      const existing = this.cache.get(key);
+      if (existing) {
+        this.removeEntry(key);
+        this.emitEvent('evict', { key, reason: 'oversized', policy: this.evictionPolicy.name, size: existing.size });
+      }
+      return;
     }
 
-    // Check if we need to evict entries
-    if (this.cache.size >= this.maxSize) {
-      await this.intelligentEviction();
+    // Replacing a key frees its previous slot before making room
+    if (this.cache.has(key)) {
+      this.detachEntry(key);
     }
+    this.makeRoom(size);
 
+    const now = Date.now();
     const entry: SmartCacheEntry<T> = {
       value: finalValue,
-      timestamp: Date.now(),
+      timestamp: now,
       accessCount: 0,
-      lastAccessed: Date.now(),
+      lastAccessed: now,
       size,
-      tags
+      originalSize,
+      tags,
+      dependsOn: options.dependsOn,
+      ttl: options.ttl ?? this.defaultTtl,
+      sliding: options.sliding ?? this.slidingExpiration,
+      maxAge: options.maxAge ?? this.maxAge,
+      staleWindow: options.staleWindow,
+      refreshAhead: options.refreshAhead,
+      negative: options.negative || undefined
     };
+    entry.expiresAt = this.capExpiry(entry, now + entry.ttl!);
 
-    this.cache.set(key, entry);
+    this.attachEntry(key, entry);
     this.updateAccessPattern(key);
+    this.persistEntry(key, entry);
+    this.emitEvent('set', { key, size, tags, expiresAt: entry.expiresAt });
+  }
 
-    if (this.persistenceEnabled) {
-      this.saveToStorage();
+  /**
+   * Wrap a function so results are cached by argument. Works with sync and
+   * async functions: promises are shared while in flight and only resolved
+   * values are cached unless `cacheRejections` is set. Sync results are stored
+   * uncompressed so lookups stay synchronous. Keys default to a stable hash of
+   * the arguments, prefixed with `namespace` (or the function name).
+   */
+  memoize<A extends any[], R>(fn: (...args: A) => R, options: MemoizeOptions<A> = {}): (...args: A) => R {
+    const cache = this;
+    const namespace = options.namespace || fn.name || 'memoize';
+    const pending = new Map<string, Promise<any>>();
+    const rejections = new Map<string, { error: any; expiresAt: number }>();
+    // Unknown until the first call unless the function is declared async
+    let isAsync: boolean | undefined = fn.constructor?.name === 'AsyncFunction' ? true : undefined;
+
+    return function (this: any, ...args: A): R {
+      const key = `${namespace}:${options.key ? options.key(...args) : SmartCache.hashArguments(args)}`;
+
+      const inFlight = pending.get(key);
+      if (inFlight) return inFlight as any;
+
+      const rejected = rejections.get(key);
+      if (rejected) {
+        if (rejected.expiresAt > Date.now()) return Promise.reject(rejected.error) as any;
+        rejections.delete(key);
+      }
+
+      const entry = isAsync !== undefined ? cache.cache.get(key) : undefined;
+      if (entry && !cache.isExpired(entry, Date.now())) {
+        if (isAsync) {
+          cache.recordHit(key, entry);
+          return cache.readValue(entry) as any;
+        }
+        if (!cache.isCompressed(entry.value)) {
+          cache.recordHit(key, entry);
+          return entry.value as any;
+        }
+      }
+      cache.recordMiss(key);
+
+      const setOptions: CacheSetOptions = {
+        ttl: options.ttl,
+        tags: typeof options.tags === 'function' ? options.tags(...args) : options.tags
+      };
+      const result: any = fn.apply(this, args);
+
+      if (!result || typeof result.then !== 'function') {
+        isAsync = false;
+        cache.storeEntry(key, { value: result, size: cache.calculateSize(result) }, setOptions);
+        cache.publishCoherence({ op: 'set', key });
+        return result;
+      }
+
+      isAsync = true;
+      const promise = Promise.resolve(result)
+        .then(async value => {
+          await cache.ready;
+          await cache.writeEntry(key, value, setOptions);
+          cache.publishCoherence({ op: 'set', key });
+          return value;
+        }, error => {
+          if (options.cacheRejections) {
+            rejections.set(key, { error, expiresAt: Date.now() + (options.ttl ?? cache.defaultTtl) });
+          }
+          throw error;
+        })
+        .finally(() => {
+          pending.delete(key);
+        });
+
+      pending.set(key, promise);
+      return promise as any;
+    };
+  }
+
+  /**
+   * Create a method decorator that memoizes results in a SmartCache, similar
+   * to RateLimiter.decorator. Each instance gets its own key namespace.
+   */
+  static decorator(options: MemoizeOptions & { cache?: SmartCache } = {}) {
+    const cache = options.cache || new SmartCache({ ttl: options.ttl });
+    const memoized = new WeakMap<object, (...args: any[]) => any>();
+    let instanceCount = 0;
+
+    return function (target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+      const originalMethod = descriptor.value;
+
+      descriptor.value = function (this: any, ...args: any[]) {
+        const owner = this ?? target;
+        let fn = memoized.get(owner);
+
+        if (!fn) {
+          fn = cache.memoize(originalMethod, {
+            ...options,
+            namespace: `${options.namespace || propertyKey}:${++instanceCount}`
+          });
+          memoized.set(owner, fn);
+        }
+
+        return fn.apply(this, args);
+      };
+
+      return descriptor;
+    };
+  }
+
+  /**
+   * Stable, order-independent hash of function arguments (cyrb53 over a
+   * canonical JSON encoding with sorted object keys)
+   */
+  private static hashArguments(args: any[]): string {
+    const seen = new WeakSet<object>();
+    const canonical = JSON.stringify(args, function (this: any, _key: string, value: any) {
+      if (typeof value === 'bigint') return `${value}n`;
+      if (typeof value === 'function') return `[Function ${value.name}]`;
+      if (value === undefined) return '[undefined]';
+      if (value instanceof Map) return { __map: Array.from(value.entries()) };
+      if (value instanceof Set) return { __set: Array.from(value.values()) };
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        if (seen.has(value)) return '[Circular]';
+        seen.add(value);
+        if (value instanceof Date) return value.toISOString();
+        return Object.keys(value).sort().reduce((sorted: any, k) => {
+          sorted[k] = value[k];
+          return sorted;
+        }, {});
+      }
+      return value;
+    });
+
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < canonical.length; i++) {
+      const ch = canonical.charCodeAt(i);
+      h1 = Math.imul(h1 ^ ch, 2654435761);
+      h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+  }
+
+  /**
+   * Apply compression for large values, keeping it only when it saves space
+   */
+  private async encodeValue(value: T): Promise<{ value: T; size: number; originalSize?: number }> {
+    const size = this.calculateSize(value);
+
+    if (this.compressionEnabled && size > this.compressionThreshold) {
+      const compressed = await this.compress(value);
+      const compressedSize = compressed ? this.calculateSize(compressed) : size;
+
+      if (compressedSize < size) {
+        return { value: compressed, size: compressedSize, originalSize: size };
+      }
+    }
+
+    return { value, size };
+  }
+
+  /**
+   * Export live entries as a versioned snapshot. Timestamps, expiry, tags and
+   * access counts are preserved; values are stored uncompressed inside the
+   * payload, which can itself be compressed. The checksum is a SHA-256 hash,
+   * or an HMAC when a secret is given.
+   */
+  async exportSnapshot(options: CacheSnapshotExportOptions = {}): Promise<CacheSnapshot> {
+    await this.ready;
+    const now = Date.now();
+    const entries: Array<[string, SmartCacheEntry<T>]> = [];
+
+    for (const [key, entry] of this.cache.entries()) {
+      if (!this.isRetained(entry, now)) continue;
+
+      const value = await this.readValue(entry);
+      entries.push([key, { ...entry, value, size: entry.originalSize ?? entry.size, originalSize: undefined }]);
     }
+
+    const compression = options.compress === true ? this.compressionAlgorithm : options.compress || undefined;
+    let payload = JSON.stringify(entries);
+    if (compression) {
+      payload = await CacheCompression.compress(payload, compression);
+    }
+
+    const snapshot = {
+      version: SmartCache.SNAPSHOT_VERSION,
+      createdAt: now,
+      compression,
+      signature: options.secret ? 'hmac-sha256' as const : 'sha256' as const,
+      payload
+    };
+
+    return { ...snapshot, checksum: await this.snapshotChecksum(snapshot, options.secret) };
   }
 
   /**
-   * AI-powered intelligent eviction based on access patterns
+   * Verify and load a snapshot produced by `exportSnapshot`. Throws if the
+   * version is unknown or the checksum does not match, leaving the cache
+   * untouched. Entries that have expired since the export are skipped.
    */
-  private async intelligentEviction(): Promise<void> {
+  async importSnapshot(
+    snapshot: CacheSnapshot | string,
+    options: CacheSnapshotImportOptions = {}
+  ): Promise<{ imported: number; skipped: number }> {
+    await this.ready;
+    const parsed: CacheSnapshot = typeof snapshot === 'string' ? JSON.parse(snapshot) : snapshot;
+
+    if (!parsed || parsed.version !== SmartCache.SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported cache snapshot version: ${parsed && parsed.version}`);
+    }
+
+    // Refuse to downgrade: a signed snapshot needs the secret, and a secret demands a signature
+    if ((parsed.signature === 'hmac-sha256') !== Boolean(options.secret)) {
+      throw new Error(options.secret ? 'Cache snapshot is not signed' : 'Cache snapshot is signed; a secret is required');
+    }
+
+    const expected = await this.snapshotChecksum(parsed, options.secret);
+    if (typeof parsed.checksum !== 'string' || !CryptoUtils.constantTimeEqual(expected, parsed.checksum)) {
+      throw new Error('Cache snapshot checksum mismatch');
+    }
+
+    const payload = parsed.compression
+      ? await CacheCompression.decompress(parsed.payload, parsed.compression)
+      : parsed.payload;
+    const entries: Array<[string, SmartCacheEntry<T>]> = JSON.parse(payload);
+
+    if (options.mode === 'replace') {
+      this.clear();
+    }
+
+    const now = Date.now();
+    let imported = 0;
+    let skipped = 0;
+
+    // Oldest access first so recency-based eviction policies see the right order
+    entries.sort((a, b) => a[1].lastAccessed - b[1].lastAccessed);
+
+    for (const [key, snapshotEntry] of entries) {
+      if (!this.isRetained(snapshotEntry, now)) {
+        skipped++;
+        continue;
+      }
+
+      const { value, size, originalSize } = await this.encodeValue(snapshotEntry.value);
+      if (size > this.maxBytes) {
+        skipped++;
+        continue;
+      }
+
+      if (this.cache.has(key)) {
+        this.detachEntry(key);
+      }
+      this.makeRoom(size);
+
+      const entry: SmartCacheEntry<T> = { ...snapshotEntry, value, size, originalSize };
+      this.attachEntry(key, entry);
+      this.persistEntry(key, entry);
+      this.publishCoherence({ op: 'set', key });
+      imported++;
+    }
+
+    return { imported, skipped };
+  }
+
+  private snapshotChecksum(snapshot: Omit<CacheSnapshot, 'checksum'>, secret?: string): Promise<string> {
+    const data = [snapshot.version, snapshot.createdAt, snapshot.compression || '', snapshot.signature, snapshot.payload].join('.');
+    return secret ? CryptoUtils.hmac(data, secret) : CryptoUtils.hash(data);
+  }
+
+  /**
+   * Typed listener registration for cache lifecycle events
+   */
+  on<K extends keyof SmartCacheEvents>(event: K, callback: (payload: SmartCacheEvents[K]) => void): void {
+    super.on(event, callback);
+  }
+
+  once<K extends keyof SmartCacheEvents>(event: K, callback: (payload: SmartCacheEvents[K]) => void): void {
+    super.once(event, callback);
+  }
+
+  off<K extends keyof SmartCacheEvents>(event: K, callback: (payload: SmartCacheEvents[K]) => void): void {
+    super.off(event, callback);
+  }
+
+  /**
+   * Wait for the initial storage load and all pending storage writes
+   */
+  async flush(): Promise<void> {
+    await this.ready;
+    await this.storeQueue;
+  }
+
+  /**
+   * Switch persisted entries to a new encryption key. New writes use it
+   * immediately; stored records are re-encrypted in the background of the
+   * store queue, and the old key stays usable for anything not yet rewritten.
+   * Resolves with the number of records re-encrypted.
+   */
+  async rotateEncryptionKey(next: CacheEncryptionKey): Promise<number> {
+    if (!this.encryption) {
+      throw new Error('Cache encryption is not enabled');
+    }
+
+    await this.ready;
+    this.encryption.rotate(next);
+
+    const rotation = this.storeQueue.then(() => this.reencryptStore());
+    this.storeQueue = rotation.then(() => undefined, () => undefined);
+    return rotation;
+  }
+
+  /**
+   * Stop background cleanup and flush pending storage writes
+   */
+  async destroy(): Promise<void> {
+    this.unsubscribeCoherence?.();
+    this.unsubscribeCoherence = undefined;
+    if (this.cleanupInterval && typeof clearInterval !== 'undefined') {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = undefined;
+    }
+    await this.flush();
+  }
+
+  /**
+   * Switch eviction policy at runtime. Existing keys are replayed into the new
+   * policy from least to most recently accessed.
+   */
+  setEvictionPolicy(policy: EvictionPolicyName | EvictionPolicy): void {
+    this.evictionPolicy = this.createEvictionPolicy(policy);
+
+    Array.from(this.cache.entries())
+      .sort((a, b) => a[1].lastAccessed - b[1].lastAccessed)
+      .forEach(([key, entry]) => this.evictionPolicy.onInsert(key, entry.size));
+  }
+
+  private createEvictionPolicy(policy: EvictionPolicyName | EvictionPolicy): EvictionPolicy {
+    if (typeof policy === 'object') {
+      return policy;
+    }
+
+    switch (policy) {
+      case 'lru':
+        return new LRUEvictionPolicy();
+      case 'lfu':
+        return new LFUEvictionPolicy();
+      case 'w-tinylfu':
+        return new WTinyLFUEvictionPolicy(this.maxSize);
+      default:
+        return new WeightedScoreEvictionPolicy(() => this.scoreEntries());
+    }
+  }
+
+  /**
+   * Evict entries chosen by the eviction policy until a value of `size` bytes fits
+   */
+  private makeRoom(size: number): void {
+    while (this.cache.size > 0 && (this.cache.size >= this.maxSize || this.totalBytes + size > this.maxBytes)) {
+      const victim = this.evictionPolicy.selectVictim();
+      const entry = victim !== undefined ? this.cache.get(victim) : undefined;
+      if (victim === undefined || !entry) break;
+
+      const reason: CacheEvictionReason = this.cache.size >= this.maxSize ? 'capacity' : 'memory';
+      const name = this.evictionPolicy.name;
+      this.removeEntry(victim);
+      this.evictionCounts[name] = (this.evictionCounts[name] || 0) + 1;
+      this.emitEvent('evict', { key: victim, reason, policy: name, size: entry.size });
+    }
+  }
+
+  /**
+   * AI-powered scoring based on access patterns, used by the weighted eviction policy
+   */
+  private scoreEntries(): Array<{ key: string; score: number }> {
     const entries = Array.from(this.cache.entries());
     
     // Score each entry based on multiple factors
-    const scores = entries.map(([key, entry]) => {
+    return entries.map(([key, entry]) => {
       const age = Date.now() - entry.timestamp;
       const timeSinceAccess = Date.now() - entry.lastAccessed;
       const accessFrequency = this.getAccessFrequency(key);
@@ -127,16 +855,6 @@ export class SmartCache<T = any> {
 
       return { key, score };
     });
-
-    // Sort by score (higher = more likely to evict)
-    scores.sort((a, b) => b.score - a.score);
-
-    // Evict top 20% of entries
-    const evictCount = Math.ceil(this.cache.size * 0.2);
-    for (let i = 0; i < evictCount; i++) {
-      this.cache.delete(scores[i].key);
-      this.accessPatterns.delete(scores[i].key);
-    }
   }
 
   /**
@@ -148,11 +866,36 @@ export class SmartCache<T = any> {
     memoryUsage: number;
     topKeys: string[];
     insights: string[];
+    compression: {
+      enabled: boolean;
+      algorithm: CompressionAlgorithm;
+      compressedEntries: number;
+      originalBytes: number;
+      compressedBytes: number;
+      ratio: number;
+      failures: number;
+      entries: Array<{ key: string; originalSize: number; compressedSize: number; ratio: number }>;
+    };
+    eviction: {
+      policy: string;
+      maxBytes: number;
+      evictions: Record<string, number>;
+      oversizedRejections: number;
+    };
+    prefetch: {
+      enabled: boolean;
+      issued: number;
+      completed: number;
+      hits: number;
+      failures: number;
+      skipped: number;
+      hitRate: number;
+      inFlight: number;
+    };
   } {
     const totalRequests = this.hitCount + this.missCount;
     const hitRate = totalRequests > 0 ? this.hitCount / totalRequests : 0;
-    const memoryUsage = Array.from(this.cache.values())
-      .reduce((total, entry) => total + entry.size, 0);
+    const memoryUsage = this.totalBytes;
     
     const topKeys = Array.from(this.cache.entries())
       .sort((a, b) => b[1].accessCount - a[1].accessCount)
@@ -166,7 +909,21 @@ export class SmartCache<T = any> {
       size: this.cache.size,
       memoryUsage,
       topKeys,
-      insights
+      insights,
+      compression: this.getCompressionStats(),
+      eviction: {
+        policy: this.evictionPolicy.name,
+        maxBytes: this.maxBytes,
+        evictions: { ...this.evictionCounts },
+        oversizedRejections: this.oversizedRejections
+      },
+      prefetch: {
+        enabled: !!this.predictor,
+        ...this.prefetchCounts,
+        // Share of completed prefetches that were read before being evicted or replaced
+        hitRate: this.prefetchCounts.completed > 0 ? this.prefetchCounts.hits / this.prefetchCounts.completed : 0,
+        inFlight: this.prefetchInFlight
+      }
     };
   }
 
@@ -181,7 +938,8 @@ export class SmartCache<T = any> {
       insights.push("Low hit rate detected. Consider increasing TTL or cache size.");
     }
 
-    if (stats.memoryUsage > this.maxSize * 0.8) {
+    const memoryLimit = this.maxBytes !== Infinity ? this.maxBytes : this.maxSize;
+    if (stats.memoryUsage > memoryLimit * 0.8) {
       insights.push("Memory usage is high. Consider enabling compression or reducing TTL.");
     }
 
@@ -190,6 +948,16 @@ export class SmartCache<T = any> {
       insights.push(`Hot keys detected: ${hotKeys.join(', ')}. Consider pre-warming these keys.`);
     }
 
+    if (this.compressionEnabled) {
+      const compression = this.getCompressionStats();
+      if (compression.compressedEntries > 0 && compression.ratio < 1.2) {
+        insights.push(`Compression ratio is only ${compression.ratio.toFixed(2)}x. Consider raising compressionThreshold or disabling compression.`);
+      }
+      if (compression.failures > 0) {
+        insights.push(`Compression failed ${compression.failures} times with ${this.compressionAlgorithm}. Values were stored uncompressed.`);
+      }
+    }
+
     return insights;
   }
 
@@ -217,33 +985,130 @@ export class SmartCache<T = any> {
   }
 
   /**
-   * Tag-based invalidation
+   * Tag-based invalidation. Tags are hierarchical with `:` separators, so
+   * `user:42` also matches `user:42:orders`; `*` is a wildcard (`user:*:orders`,
+   * `session:*`). Dependent entries are removed too. Returns every removed key.
    */
-  invalidateByTag(tag: string): void {
-    for (const [key, entry] of this.cache.entries()) {
-      if (entry.tags && entry.tags.includes(tag)) {
-        this.cache.delete(key);
+  invalidateByTag(tag: string): string[] {
+    const matches = SmartCache.tagMatcher(tag);
+    const keys = new Set<string>();
+
+    for (const [indexedTag, taggedKeys] of this.tagIndex.entries()) {
+      if (matches(indexedTag)) {
+        taggedKeys.forEach(key => keys.add(key));
+      }
+    }
+
+    const removed: string[] = [];
+    const visited = new Set(keys);
+
+    for (const key of keys) {
+      if (!this.cache.has(key)) continue;
+
+      this.removeEntry(key);
+      this.emitEvent('invalidate', { key, tag, origin: this.remoteOrigin });
+      removed.push(key);
+      removed.push(...this.invalidateDependents(key, visited));
+    }
+
+    this.publishCoherence({ op: 'invalidateByTag', tag });
+    return removed;
+  }
+
+  /**
+   * Build a predicate for a hierarchical / wildcard tag pattern
+   */
+  static tagMatcher(pattern: string): (tag: string) => boolean {
+    if (pattern.includes('*')) {
+      const source = pattern
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+      const regex = new RegExp(`^${source}$`);
+      return tag => regex.test(tag);
+    }
+
+    return tag => tag === pattern || tag.startsWith(pattern + ':');
+  }
+
+  private invalidateDependents(parentKey: string, visited: Set<string>): string[] {
+    const children = this.dependents.get(parentKey);
+    if (!children) return [];
+
+    const removed: string[] = [];
+    for (const child of Array.from(children)) {
+      if (visited.has(child)) continue;
+      visited.add(child);
+
+      if (this.cache.has(child)) {
+        this.removeEntry(child);
+        this.emitEvent('invalidate', { key: child, parent: parentKey, origin: this.remoteOrigin });
+        removed.push(child);
       }
+      removed.push(...this.invalidateDependents(child, visited));
     }
+
+    return removed;
+  }
+
+  private linkDependency(key: string, parentKey: string): void {
+    let children = this.dependents.get(parentKey);
+    if (!children) {
+      children = new Set();
+      this.dependents.set(parentKey, children);
+    }
+    children.add(key);
   }
 
   /**
    * Compression utilities
    */
   private async compress(value: any): Promise<any> {
-    // Simple compression simulation (in real implementation, use pako or similar)
-    const jsonString = JSON.stringify(value);
-    return { __compressed: true, data: btoa(jsonString) };
+    try {
+      const data = await CacheCompression.compress(JSON.stringify(value), this.compressionAlgorithm);
+      return { __compressed: true, algorithm: this.compressionAlgorithm, data };
+    } catch (error) {
+      this.compressionFailures++;
+      return undefined;
+    }
   }
 
   private async decompress(value: any): Promise<any> {
     if (this.isCompressed(value)) {
-      const decompressed = atob(value.data);
+      const decompressed = await CacheCompression.decompress(value.data, value.algorithm);
       return JSON.parse(decompressed);
     }
     return value;
   }
 
+  /**
+   * Compression ratio is original size / compressed size (higher is better)
+   */
+  private getCompressionStats() {
+    const entries = Array.from(this.cache.entries())
+      .filter(([, entry]) => entry.originalSize !== undefined)
+      .map(([key, entry]) => ({
+        key,
+        originalSize: entry.originalSize!,
+        compressedSize: entry.size,
+        ratio: entry.size > 0 ? entry.originalSize! / entry.size : 1
+      }));
+
+    const originalBytes = entries.reduce((total, entry) => total + entry.originalSize, 0);
+    const compressedBytes = entries.reduce((total, entry) => total + entry.compressedSize, 0);
+
+    return {
+      enabled: this.compressionEnabled,
+      algorithm: this.compressionAlgorithm,
+      compressedEntries: entries.length,
+      originalBytes,
+      compressedBytes,
+      ratio: compressedBytes > 0 ? originalBytes / compressedBytes : 1,
+      failures: this.compressionFailures,
+      entries
+    };
+  }
+
   private isCompressed(value: any): boolean {
     return value && typeof value === 'object' && value.__compressed === true;
   }
@@ -285,50 +1150,423 @@ export class SmartCache<T = any> {
   private getBasicStats() {
     const totalRequests = this.hitCount + this.missCount;
     const hitRate = totalRequests > 0 ? this.hitCount / totalRequests : 0;
-    const memoryUsage = Array.from(this.cache.values())
-      .reduce((total, entry) => total + entry.size, 0);
+    const memoryUsage = this.totalBytes;
     
     return { hitRate, memoryUsage };
   }
 
+  /**
+   * Remove entries whose retention deadline has passed, driven by the expiry index
+   */
   private cleanup(): void {
     const now = Date.now();
-    for (const [key, entry] of this.cache.entries()) {
-      if (now - entry.timestamp > this.ttl) {
-        this.cache.delete(key);
-        this.accessPatterns.delete(key);
+
+    for (const { key, generation } of this.expiryIndex.popDue(now)) {
+      // Skip records for entries that were overwritten or removed since indexing
+      const entry = this.cache.get(key);
+      if (!entry || this.entryGenerations.get(key) !== generation) continue;
+
+      if (this.isRetained(entry, now)) {
+        // Deadline moved (sliding expiration or touch), re-index with the new one
+        this.indexExpiry(key, entry);
+      } else {
+        this.expireEntry(key, entry);
       }
     }
   }
 
-  private saveToStorage(): void {
-    if (typeof window === 'undefined') return;
-    
-    const data = Array.from(this.cache.entries());
-    const storage = this.storageType === 'localStorage' ? localStorage : sessionStorage;
-    storage.setItem('smartcache_data', JSON.stringify(data));
+  private indexExpiry(key: string, entry: SmartCacheEntry<T>): void {
+    this.expiryIndex.push(this.getExpiresAt(entry) + (entry.staleWindow || 0), key, this.entryGenerations.get(key)!);
+
+    // Each live entry has one record; compact once stale records outnumber them
+    if (this.expiryIndex.size > this.cache.size * 2 + 64) {
+      this.expiryIndex.compact(record => this.entryGenerations.get(record.key) === record.generation);
+    }
   }
 
-  private loadFromStorage(): void {
-    if (typeof window === 'undefined') return;
-    
-    const storage = this.storageType === 'localStorage' ? localStorage : sessionStorage;
-    const data = storage.getItem('smartcache_data');
-    
-    if (data) {
+  /**
+   * Learn the access sequence and prefetch the keys most likely to follow
+   */
+  private trackAccess(key: string): void {
+    if (!this.predictor) return;
+
+    this.predictor.record(key);
+    if (this.loader) {
+      this.prefetchAfter(key);
+    }
+  }
+
+  private prefetchAfter(key: string): void {
+    const { maxKeys = 2, minProbability = 0.3, maxConcurrent = 4, maxPerMinute = 60 } = this.prefetchOptions;
+    const { load, options } = this.loader!;
+    const now = Date.now();
+
+    for (const { key: next } of this.predictor!.predict(key, maxKeys, minProbability)) {
+      const entry = this.cache.get(next);
+      if ((entry && !this.isExpired(entry, now)) || this.inFlightLoads.has(next)) continue;
+
+      // Budget: bounded concurrency plus a sliding one-minute rate limit
+      this.prefetchTimestamps = this.prefetchTimestamps.filter(time => now - time < 60000);
+      if (this.prefetchInFlight >= maxConcurrent || this.prefetchTimestamps.length >= maxPerMinute) {
+        this.prefetchCounts.skipped++;
+        continue;
+      }
+
+      this.prefetchInFlight++;
+      this.prefetchTimestamps.push(now);
+      this.prefetchCounts.issued++;
+
+      this.load(next, () => load(next), options)
+        .then(value => {
+          // "Not found" results are not prefetched values
+          if (value === undefined) return;
+          this.prefetchCounts.completed++;
+          this.prefetchedKeys.add(next);
+        }, () => {
+          this.prefetchCounts.failures++;
+        })
+        .finally(() => {
+          this.prefetchInFlight--;
+        });
+    }
+  }
+
+  private recordHit(key: string, entry: SmartCacheEntry<T>, stale = false): void {
+    // Update access patterns for AI-powered eviction
+    this.updateAccessPattern(key);
+
+    if (this.prefetchedKeys.delete(key)) {
+      this.prefetchCounts.hits++;
+    }
+
+    const now = Date.now();
+    entry.accessCount++;
+    entry.lastAccessed = now;
+    this.hitCount++;
+    this.evictionPolicy.onAccess(key);
+
+    if (entry.sliding) {
+      entry.expiresAt = this.capExpiry(entry, now + this.getEntryTtl(entry));
+    }
+
+    this.emitEvent('hit', entry.negative ? { key, stale, negative: true } : { key, stale });
+  }
+
+  private recordMiss(key: string): void {
+    this.missCount++;
+    this.emitEvent('miss', { key });
+  }
+
+  private expireEntry(key: string, entry: SmartCacheEntry<T>): void {
+    this.removeEntry(key);
+    this.emitEvent('expire', { key, expiresAt: this.getExpiresAt(entry) });
+  }
+
+  /**
+   * Tell peer caches about a local write or invalidation. Operations applied
+   * on behalf of a peer are not re-broadcast, which prevents echo loops.
+   */
+  private publishCoherence(message: Pick<CacheCoherenceMessage, 'op' | 'key' | 'tag'>): void {
+    if (!this.options.coherence || this.remoteOrigin !== undefined || !this.unsubscribeCoherence) return;
+
+    try {
+      this.options.coherence.publish({
+        ...message,
+        origin: this.instanceId,
+        epoch: this.coherenceEpoch,
+        sequence: ++this.coherenceSequence,
+        timestamp: Date.now()
+      });
+    } catch (error) {
+      console.warn('Failed to publish cache coherence message:', error);
+    }
+  }
+
+  /**
+   * Drop local copies affected by a peer's operation. A peer's write
+   * invalidates rather than copies the key, so values are never shipped over
+   * the transport. Own and already-seen messages (e.g. relayed twice) are
+   * ignored, as are key operations older than the local copy, since
+   * asynchronous transports can deliver them after a newer local write.
+   */
+  private applyCoherenceMessage(message: CacheCoherenceMessage): void {
+    if (!message || message.origin === this.instanceId) return;
+
+    // A new epoch means the peer restarted, so its sequence starts over
+    const last = this.lastSequenceByOrigin.get(message.origin);
+    if (last && last.epoch === message.epoch && message.sequence <= last.sequence) return;
+    this.lastSequenceByOrigin.set(message.origin, { epoch: message.epoch, sequence: message.sequence });
+
+    this.remoteOrigin = message.origin;
+    try {
+      if ((message.op === 'set' || message.op === 'delete') && message.key !== undefined) {
+        const entry = this.cache.get(message.key);
+        if (!entry || entry.timestamp <= message.timestamp) {
+          this.invalidate(message.key);
+        }
+      } else if (message.op === 'invalidateByTag' && message.tag !== undefined) {
+        this.invalidateByTag(message.tag);
+      } else if (message.op === 'clear') {
+        // Drop entries only; the peer's statistics are its own
+        Array.from(this.cache.keys()).forEach(key => this.invalidate(key));
+      }
+    } finally {
+      this.remoteOrigin = undefined;
+    }
+  }
+
+  private emitEvent<K extends keyof SmartCacheEvents>(event: K, payload: SmartCacheEvents[K]): void {
+    if (this.listenerCount(event) > 0) {
+      this.emit(event, payload);
+    }
+  }
+
+  private async readValue(entry: SmartCacheEntry<T>): Promise<T> {
+    // Decompress if needed
+    if (this.compressionEnabled && this.isCompressed(entry.value)) {
+      return this.decompress(entry.value);
+    }
+    return entry.value;
+  }
+
+  private getEntryTtl(entry: SmartCacheEntry<T>): number {
+    return entry.ttl ?? this.defaultTtl;
+  }
+
+  private getExpiresAt(entry: SmartCacheEntry<T>): number {
+    return entry.expiresAt ?? entry.timestamp + this.getEntryTtl(entry);
+  }
+
+  /**
+   * Clamp an expiry time to the entry's absolute max age, measured from creation
+   */
+  private capExpiry(entry: SmartCacheEntry<T>, expiresAt: number): number {
+    return entry.maxAge !== undefined ? Math.min(expiresAt, entry.timestamp + entry.maxAge) : expiresAt;
+  }
+
+  private isExpired(entry: SmartCacheEntry<T>, now: number): boolean {
+    return now > this.getExpiresAt(entry);
+  }
+
+  /**
+   * Expired entries with a stale window stay in memory so they can still be served
+   */
+  private isRetained(entry: SmartCacheEntry<T>, now: number): boolean {
+    return now <= this.getExpiresAt(entry) + (entry.staleWindow || 0);
+  }
+
+  private attachEntry(key: string, entry: SmartCacheEntry<T>): void {
+    this.cache.set(key, entry);
+    this.entryGenerations.set(key, ++this.nextGeneration);
+    this.totalBytes += entry.size;
+    this.evictionPolicy.onInsert(key, entry.size);
+    this.indexExpiry(key, entry);
+
+    for (const tag of entry.tags || []) {
+      let keys = this.tagIndex.get(tag);
+      if (!keys) {
+        keys = new Set();
+        this.tagIndex.set(tag, keys);
+      }
+      keys.add(key);
+    }
+
+    for (const parentKey of entry.dependsOn || []) {
+      this.linkDependency(key, parentKey);
+    }
+  }
+
+  private detachEntry(key: string): void {
+    const entry = this.cache.get(key);
+    if (!entry) return;
+
+    this.cache.delete(key);
+    this.entryGenerations.delete(key);
+    this.totalBytes -= entry.size;
+    this.evictionPolicy.onRemove(key);
+    this.prefetchedKeys.delete(key);
+
+    for (const tag of entry.tags || []) {
+      const keys = this.tagIndex.get(tag);
+      keys?.delete(key);
+      if (keys && keys.size === 0) this.tagIndex.delete(tag);
+    }
+
+    for (const parentKey of entry.dependsOn || []) {
+      const children = this.dependents.get(parentKey);
+      children?.delete(key);
+      if (children && children.size === 0) this.dependents.delete(parentKey);
+    }
+  }
+
+  private removeEntry(key: string): void {
+    this.detachEntry(key);
+    this.loadState?.removed.add(key);
+    this.accessPatterns.delete(key);
+    this.enqueueStoreOperation(store => store.delete(key));
+  }
+
+  private createStore(): CacheStore<SmartCacheEntry<T> | EncryptedCacheEntry> {
+    const storage = this.options.storage || 'memory';
+
+    if (typeof storage === 'object') {
+      return storage;
+    }
+
+    switch (storage) {
+      case 'localStorage':
+      case 'sessionStorage':
+        if (typeof window === 'undefined' || !window[storage]) {
+          console.warn(`${storage} is not available, falling back to memory storage`);
+          return new MemoryCacheStore();
+        }
+        return new WebStorageCacheStore(window[storage]);
+
+      case 'file': {
+        const format = this.options.storageFormat || 'ndjson';
+        return new FileCacheStore({
+          path: this.options.storagePath || (format === 'directory' ? '.smartcache/entries' : `.smartcache/cache.${format}`),
+          format
+        });
+      }
+
+      default:
+        return new MemoryCacheStore();
+    }
+  }
+
+  /**
+   * Serialize storage writes so per-key operations are applied in order
+   */
+  private enqueueStoreOperation(
+    operation: (store: CacheStore<SmartCacheEntry<T> | EncryptedCacheEntry>) => Promise<unknown>
+  ): void {
+    const store = this.store;
+    if (!store) return;
+
+    this.storeQueue = this.storeQueue
+      .then(() => operation(store))
+      .then(() => undefined, error => {
+        console.warn('Failed to write cache to storage:', error);
+      });
+  }
+
+  private persistEntry(key: string, entry: SmartCacheEntry<T>): void {
+    // Encrypt when the write runs so queued writes pick up a rotated key
+    this.enqueueStoreOperation(async store => {
+      await store.set(key, this.encryption ? await this.encryption.encrypt(entry) : entry);
+    });
+  }
+
+  private async reencryptStore(): Promise<number> {
+    const store = this.store;
+    const encryption = this.encryption;
+    if (!store || !encryption) return 0;
+
+    let reencrypted = 0;
+
+    for (const key of await store.keys()) {
+      const record = await store.get(key);
+      if (!record || (CacheEncryption.isEncrypted(record) && record.keyId === encryption.keyId)) continue;
+
       try {
-        const entries = JSON.parse(data);
-        this.cache = new Map(entries);
+        const entry = CacheEncryption.isEncrypted(record) ? await encryption.decrypt(record) : record;
+        await store.set(key, await encryption.encrypt(entry));
+        reencrypted++;
       } catch (e) {
-        console.warn('Failed to load cache from storage:', e);
+        console.warn(`Failed to re-encrypt cache entry ${key}:`, e);
       }
     }
+
+    return reencrypted;
+  }
+
+  private async loadFromStorage(): Promise<void> {
+    if (!this.store) return;
+
+    try {
+      const now = Date.now();
+      const keys = await this.store.keys();
+
+      for (const key of keys) {
+        const record = await this.store.get(key);
+        if (!record) continue;
+
+        let entry: SmartCacheEntry<T>;
+        let needsRewrite: boolean;
+
+        if (CacheEncryption.isEncrypted(record)) {
+          if (!this.encryption) {
+            console.warn(`Skipping encrypted cache entry ${key}: no encryption key configured`);
+            continue;
+          }
+          try {
+            entry = await this.encryption.decrypt(record);
+          } catch (e) {
+            console.warn(`Failed to decrypt cache entry ${key}:`, e);
+            continue;
+          }
+          needsRewrite = record.keyId !== this.encryption.keyId;
+        } else {
+          entry = record;
+          needsRewrite = !!this.encryption;
+        }
+
+        if (!this.isRetained(entry, now)) {
+          this.enqueueStoreOperation(store => store.delete(key));
+          continue;
+        }
+
+        // Entries written or removed since construction are newer than what was persisted
+        if (this.cache.has(key) || this.loadState?.cleared || this.loadState?.removed.has(key)) continue;
+
+        if (this.cache.size < this.maxSize && this.totalBytes + entry.size <= this.maxBytes) {
+          this.attachEntry(key, entry);
+          // Plaintext or rotated-out records are re-encrypted with the current key
+          if (needsRewrite) {
+            this.persistEntry(key, entry);
+          }
+        }
+      }
+    } catch (e) {
+      console.warn('Failed to load cache from storage:', e);
+    } finally {
+      this.loadState = undefined;
+    }
   }
 
   clear(): void {
+    if (this.loadState) this.loadState.cleared = true;
     this.cache.clear();
+    this.totalBytes = 0;
+    this.tagIndex.clear();
+    this.dependents.clear();
+    this.evictionPolicy.clear();
+    this.expiryIndex.clear();
+    this.entryGenerations.clear();
     this.accessPatterns.clear();
+    this.predictor?.clear();
+    this.prefetchedKeys.clear();
+    this.prefetchTimestamps = [];
+    this.prefetchCounts = { issued: 0, completed: 0, hits: 0, failures: 0, skipped: 0 };
     this.hitCount = 0;
     this.missCount = 0;
+    this.evictionCounts = {};
+    this.oversizedRejections = 0;
+    this.enqueueStoreOperation(store => store.clear());
+    this.publishCoherence({ op: 'clear' });
   }
 }
+
+/**
+ * Method decorator memoizing results in a SmartCache
+ *
+ * @example
+ * class UserService {
+ *   @Cached({ ttl: 60000 })
+ *   async getUser(id: string) { ... }
+ * }
+ */
+export function Cached(options: MemoizeOptions & { cache?: SmartCache } = {}) {
+  return SmartCache.decorator(options);
+}
@@ -0,0 +1,222 @@
+import { CacheSetOptions, CacheTier, TieredCacheOptions } from '../types';
+import { SmartCache } from './SmartCache';
+
+// A write-back not yet flushed; `expiresAt` keeps its original lifetime
+type PendingWrite<T> = { value: T; options: CacheSetOptions; expiresAt?: number };
+
+/**
+ * Multi-tier cache composing SmartCache-compatible tiers ordered from fastest
+ * to slowest. Reads fall through the tiers and promote hits upward; writes go
+ * to every tier immediately (write-through) or to the first tier with lower
+ * tiers updated in the background (write-back).
+ */
+export class TieredCache<T = any> {
+  private tiers: CacheTier<T>[];
+  private writeMode: 'write-through' | 'write-back';
+  private writeBackDelay: number;
+  private promoteOnHit: boolean;
+  private dirty = new Map<string, PendingWrite<T>>();
+  // Version of each key's latest write-back, kept until it is flushed; a
+  // delete, invalidation or newer write replaces or drops it
+  private writeVersions = new Map<string, { version: number; options: CacheSetOptions }>();
+  private nextVersion = 0;
+  private flushTimer: any;
+  private hitsByTier: number[];
+  private missCount = 0;
+
+  constructor(options: TieredCacheOptions<T>) {
+    if (!options.tiers || options.tiers.length === 0) {
+      throw new Error('TieredCache requires at least one tier');
+    }
+
+    this.tiers = options.tiers;
+    this.writeMode = options.writeMode || 'write-through';
+    this.writeBackDelay = options.writeBackDelay ?? 1000;
+    this.promoteOnHit = options.promoteOnHit ?? true;
+    this.hitsByTier = this.tiers.map(() => 0);
+  }
+
+  /**
+   * Read through the tiers, promoting a hit into every faster tier
+   */
+  async get(key: string): Promise<T | undefined> {
+    for (let i = 0; i < this.tiers.length; i++) {
+      // A pending write-back is newer than anything in the slower tiers
+      const pending = i > 0 ? this.dirty.get(key) : undefined;
+      if (pending) {
+        const options = this.remainingOptions(pending);
+        if (!options) {
+          // The latest write has expired; older values in slower tiers are stale too
+          await this.delete(key);
+          break;
+        }
+
+        this.hitsByTier[0]++;
+        await this.tiers[0].set(key, pending.value, options);
+        return pending.value;
+      }
+
+      const tier = this.tiers[i];
+      const value = await tier.get(key);
+
+      if (value !== undefined) {
+        this.hitsByTier[i]++;
+        if (i > 0 && this.promoteOnHit) {
+          await this.promote(key, value, tier, i);
+        }
+        return value;
+      }
+    }
+
+    this.missCount++;
+    return undefined;
+  }
+
+  /**
+   * Write a value according to the configured write mode
+   */
+  async set(key: string, value: T, options: string[] | CacheSetOptions = {}): Promise<void> {
+    const setOptions = Array.isArray(options) ? { tags: options } : options;
+
+    if (this.writeMode === 'write-back') {
+      await this.tiers[0].set(key, value, setOptions);
+      const ttl = setOptions.ttl ?? this.tiers[0].ttl?.(key);
+      this.dirty.set(key, { value, options: setOptions, expiresAt: ttl !== undefined ? Date.now() + ttl : undefined });
+      this.writeVersions.set(key, { version: ++this.nextVersion, options: setOptions });
+      this.scheduleFlush();
+      return;
+    }
+
+    this.writeVersions.delete(key);
+    await Promise.all(this.tiers.map(tier => tier.set(key, value, setOptions)));
+  }
+
+  /**
+   * Remove a key from every tier, including any pending write-back
+   */
+  async delete(key: string): Promise<boolean> {
+    this.dirty.delete(key);
+    this.writeVersions.delete(key);
+    const results = await Promise.all(this.tiers.map(tier => tier.delete(key)));
+    return results.some(Boolean);
+  }
+
+  /**
+   * Invalidate a tag on every tier and return the keys removed from any tier.
+   * Matching pending write-backs are dropped so they cannot resurrect
+   * invalidated entries in slower tiers.
+   */
+  async invalidateByTag(tag: string): Promise<string[]> {
+    const results = await Promise.all(this.tiers.map(tier => tier.invalidateByTag(tag)));
+    const removed = new Set<string>();
+    results.forEach(keys => (keys || []).forEach(key => removed.add(key)));
+
+    const matches = SmartCache.tagMatcher(tag);
+    for (const [key, { options }] of this.writeVersions.entries()) {
+      if (removed.has(key) || (options.tags || []).some(matches)) {
+        this.dirty.delete(key);
+        this.writeVersions.delete(key);
+      }
+    }
+
+    return Array.from(removed);
+  }
+
+  /**
+   * Write all pending write-back entries to the slower tiers with the TTL
+   * they have left; entries that expired before the flush are removed. A key
+   * deleted, invalidated or rewritten while its write is in flight is not
+   * written, or is removed again from tiers the stale write already reached.
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+
+    const pending = Array.from(this.dirty.entries()).map(([key, entry]) => ({
+      key,
+      ...entry,
+      version: this.writeVersions.get(key)?.version
+    }));
+    this.dirty.clear();
+
+    await Promise.all(pending.map(async ({ key, value, version, ...entry }) => {
+      const isCurrent = () => this.writeVersions.get(key)?.version === version;
+      const options = this.remainingOptions({ value, ...entry });
+
+      try {
+        await Promise.all(this.tiers.slice(1).map(async tier => {
+          if (!isCurrent()) return;
+          if (!options) {
+            await tier.delete(key);
+            return;
+          }
+          await tier.set(key, value, options);
+          // A newer pending write will overwrite this one; anything else must not see it
+          if (!isCurrent() && !this.dirty.has(key)) await tier.delete(key);
+        }));
+      } catch (error) {
+        console.warn(`Failed to write back cache key ${key}:`, error);
+      } finally {
+        if (isCurrent()) this.writeVersions.delete(key);
+      }
+    }));
+  }
+
+  async clear(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    this.dirty.clear();
+    this.writeVersions.clear();
+    await Promise.all(this.tiers.map(tier => tier.clear?.()));
+  }
+
+  getStats(): {
+    tiers: number;
+    writeMode: 'write-through' | 'write-back';
+    hitsByTier: number[];
+    misses: number;
+    pendingWrites: number;
+  } {
+    return {
+      tiers: this.tiers.length,
+      writeMode: this.writeMode,
+      hitsByTier: [...this.hitsByTier],
+      misses: this.missCount,
+      pendingWrites: this.dirty.size
+    };
+  }
+
+  private async promote(key: string, value: T, source: CacheTier<T>, sourceIndex: number): Promise<void> {
+    const options: CacheSetOptions = {
+      ttl: source.ttl?.(key),
+      tags: source.getTags?.(key)
+    };
+
+    await Promise.all(this.tiers.slice(0, sourceIndex).map(tier => tier.set(key, value, options)));
+  }
+
+  /**
+   * A pending write's options with only the TTL left until its original
+   * expiry, or undefined once it has expired
+   */
+  private remainingOptions(pending: PendingWrite<T>): CacheSetOptions | undefined {
+    if (pending.expiresAt === undefined) return pending.options;
+
+    const ttl = pending.expiresAt - Date.now();
+    return ttl > 0 ? { ...pending.options, ttl } : undefined;
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer || typeof setTimeout === 'undefined') return;
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = undefined;
+      this.flush();
+    }, this.writeBackDelay);
+    this.flushTimer?.unref?.();
+  }
+}
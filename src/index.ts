@@ -1,5 +1,34 @@
-export { SmartCache } from './cache/SmartCache';
+export { SmartCache, Cached } from './cache/SmartCache';
+export { TieredCache } from './cache/TieredCache';
+export {
+  InProcessCacheTransport,
+  BroadcastChannelCacheTransport,
+  MessagePortCacheTransport
+} from './cache/CacheCoherence';
+export { MemoryCacheStore, WebStorageCacheStore, FileCacheStore } from './cache/CacheStore';
+export {
+  LRUEvictionPolicy,
+  LFUEvictionPolicy,
+  WTinyLFUEvictionPolicy,
+  WeightedScoreEvictionPolicy
+} from './cache/EvictionPolicy';
 export { DataValidator } from './validation/DataValidator';
+export { MessageCatalog } from './validation/MessageCatalog';
+export { TypeScriptGenerator } from './validation/TypeScriptGenerator';
+export {
+  v,
+  Schema,
+  StringSchema,
+  NumberSchema,
+  BooleanSchema,
+  LiteralSchema,
+  AnySchema,
+  ArraySchema,
+  ObjectSchema,
+  RecordSchema,
+  UnionSchema
+} from './validation/Schema';
+export type { Infer, ObjectOutput } from './validation/Schema';
 export { PerformanceMonitor } from './performance/PerformanceMonitor';
 export { EventEmitter } from './events/EventEmitter';
 export { AIProcessor } from './ai/AIProcessor';
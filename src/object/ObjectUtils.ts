@@ -14,8 +14,15 @@ export class ObjectUtils {
     
     const cloned = {} as T;
     for (const key in obj) {
-      if (obj.hasOwnProperty(key)) {
-        cloned[key] = ObjectUtils.deepClone(obj[key]);
+      // Called via the prototype so data keys such as `hasOwnProperty` cannot shadow it
+      if (Object.prototype.hasOwnProperty.call(obj, key)) {
+        // Defined rather than assigned, so a key `__proto__` stays a plain key
+        Object.defineProperty(cloned, key, {
+          value: ObjectUtils.deepClone(obj[key]),
+          enumerable: true,
+          writable: true,
+          configurable: true
+        });
       }
     }
     
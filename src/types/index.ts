@@ -1,20 +1,284 @@
 // Core types for the advanced-dev-utils package
 
+export interface CacheStore<V = any> {
+  get(key: string): Promise<V | undefined>;
+  set(key: string, value: V): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  keys(): Promise<string[]>;
+  clear(): Promise<void>;
+}
+
+export type FileCacheStoreFormat = 'json' | 'ndjson' | 'directory';
+
+export type CompressionAlgorithm = 'gzip' | 'deflate' | 'brotli';
+
+export type EvictionPolicyName = 'lru' | 'lfu' | 'w-tinylfu' | 'weighted';
+
+export interface EvictionPolicy {
+  readonly name: string;
+  onInsert(key: string, size: number): void;
+  onAccess(key: string): void;
+  onRemove(key: string): void;
+  selectVictim(): string | undefined;
+  clear(): void;
+}
+
+export type CacheCoherenceOperation = 'set' | 'delete' | 'invalidateByTag' | 'clear';
+
+export interface CacheCoherenceMessage {
+  origin: string;
+  /** Random per cache object, so a restarted peer reusing its `instanceId` starts a new sequence */
+  epoch?: string;
+  sequence: number;
+  timestamp: number;
+  op: CacheCoherenceOperation;
+  key?: string;
+  tag?: string;
+}
+
+export interface CacheCoherenceTransport {
+  publish(message: CacheCoherenceMessage): void;
+  subscribe(handler: (message: CacheCoherenceMessage) => void): () => void;
+  close?(): void;
+}
+
+export interface CacheEncryptionKey {
+  id?: string;
+  key?: CryptoKey;
+  password?: string;
+}
+
+export interface CacheEncryptionOptions extends CacheEncryptionKey {
+  previousKeys?: CacheEncryptionKey[];
+}
+
+export interface EncryptedCacheEntry {
+  keyId: string;
+  salt?: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export interface CachePrefetchOptions {
+  maxKeys?: number;
+  minProbability?: number;
+  maxConcurrent?: number;
+  maxPerMinute?: number;
+}
+
 export interface CacheOptions {
   ttl?: number;
+  maxAge?: number;
+  slidingExpiration?: boolean;
   maxSize?: number;
+  maxBytes?: number;
+  evictionPolicy?: EvictionPolicyName | EvictionPolicy;
   compression?: boolean;
+  compressionThreshold?: number;
+  compressionAlgorithm?: CompressionAlgorithm;
   persistence?: boolean;
-  storage?: 'memory' | 'localStorage' | 'sessionStorage';
+  storage?: 'memory' | 'localStorage' | 'sessionStorage' | 'file' | CacheStore;
+  storagePath?: string;
+  storageFormat?: FileCacheStoreFormat;
+  encryption?: CacheEncryptionOptions;
+  prefetch?: boolean | CachePrefetchOptions;
+  negativeTtl?: number;
+  coherence?: CacheCoherenceTransport;
+  instanceId?: string;
 }
 
+export interface CacheSetOptions {
+  ttl?: number;
+  tags?: string[];
+  dependsOn?: string[];
+  sliding?: boolean;
+  maxAge?: number;
+}
+
+export interface CacheLoadOptions extends CacheSetOptions {
+  staleWhileRevalidate?: number;
+  staleIfError?: number;
+  refreshAhead?: number;
+  negativeTtl?: number;
+}
+
+export type CacheLookupResult<T> =
+  | { status: 'hit'; value: T }
+  | { status: 'negative' }
+  | { status: 'miss' };
+
 export interface ValidationRule {
-  type: 'required' | 'string' | 'number' | 'email' | 'url' | 'custom';
+  type:
+    | 'required' | 'string' | 'number' | 'email' | 'url' | 'custom'
+    | 'integer' | 'boolean' | 'date' | 'datetime' | 'uuid' | 'ipv4' | 'ipv6'
+    | 'phone' | 'creditCard' | 'enum' | 'hexColor' | 'semver' | 'slug' | 'array';
   message?: string;
   validator?: (value: any) => boolean;
   min?: number;
   max?: number;
   pattern?: RegExp;
+  values?: any[];
+  messageKey?: string;
+  /** Values for the message's placeholders, e.g. `{min}` */
+  params?: Record<string, any>;
+  schema?: JSONSchema;
+  asyncValidator?: (value: any, context: { field: string; signal?: AbortSignal }) => Promise<boolean>;
+  timeout?: number;
+  when?: ValidationCondition;
+  /** Let `null` pass the rule */
+  nullable?: boolean;
+}
+
+export interface ValidationCondition {
+  field: string;
+  predicate: (value: any, obj: any) => boolean;
+}
+
+export interface ObjectValidationRule {
+  validator: (obj: any) => boolean;
+  message?: string;
+  messageKey?: string;
+  fields?: string[];
+  when?: ValidationCondition;
+}
+
+export interface FieldTransform {
+  type: 'trim' | 'lowercase' | 'uppercase' | 'number' | 'boolean' | 'date' | 'round' | 'default' | 'email' | 'phone' | 'custom';
+  value?: any;
+  decimals?: number;
+  countryCode?: string;
+  transform?: (value: any, obj: any) => any;
+  reason?: string;
+}
+
+export interface TransformChange {
+  field: string;
+  transform: FieldTransform['type'];
+  original: any;
+  transformed: any;
+  reason: string;
+}
+
+export interface TransformFailure {
+  field: string;
+  transform: FieldTransform['type'];
+  error: string;
+}
+
+export interface ValidationCallOptions {
+  locale?: string;
+}
+
+export interface InferredFieldSchema {
+  type?: 'string' | 'number' | 'boolean' | 'object' | 'array';
+  types?: Array<NonNullable<InferredFieldSchema['type']>>;
+  format?: 'email' | 'url' | 'uuid' | 'date' | 'datetime' | 'ipv4' | 'ipv6';
+  required: boolean;
+  nullable?: boolean;
+  enum?: Array<string | number>;
+  minLength?: number;
+  maxLength?: number;
+  min?: number;
+  max?: number;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, InferredFieldSchema>;
+  items?: InferredFieldSchema;
+  confidence: number;
+  samples: number;
+}
+
+export interface SchemaInferenceOptions {
+  sampleSize?: number;
+  maxEnumValues?: number;
+  maxDepth?: number;
+  requiredThreshold?: number;
+}
+
+export interface TypeScriptGenerationOptions {
+  rootName?: string;
+  declaration?: 'interface' | 'type';
+  exported?: boolean;
+}
+
+export interface ValidationStats {
+  totalValidations: number;
+  successRate: number;
+  topErrors: { field: string; errorCount: number }[];
+  validationTrends: { timestamp: number; successRate: number }[];
+}
+
+export interface StreamValidationOptions extends ValidationCallOptions {
+  format?: 'ndjson' | 'csv';
+  delimiter?: string;
+  headers?: string[];
+  maxLineLength?: number;
+  maxInvalidLines?: number;
+  onRow?: (result: StreamRowResult) => void | Promise<void>;
+}
+
+export interface StreamRowResult {
+  line: number;
+  isValid: boolean;
+  data?: any;
+  errors: { [field: string]: string[] };
+  suggestions: { [field: string]: string[] };
+}
+
+export interface StreamValidationSummary extends ValidationStats {
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  parseErrors: number;
+  invalidLines: number[];
+  commonErrors: string[];
+}
+
+export interface AsyncValidationOptions extends ValidationCallOptions {
+  concurrency?: number;
+  timeout?: number;
+  signal?: AbortSignal;
+}
+
+export interface JSONSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JSONSchema | boolean>;
+  definitions?: Record<string, JSONSchema | boolean>;
+  title?: string;
+  description?: string;
+  type?: string | string[];
+  properties?: Record<string, JSONSchema | boolean>;
+  required?: string[];
+  items?: JSONSchema | boolean;
+  prefixItems?: Array<JSONSchema | boolean>;
+  enum?: any[];
+  const?: any;
+  pattern?: string;
+  format?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  minProperties?: number;
+  maxProperties?: number;
+  additionalProperties?: JSONSchema | boolean;
+  oneOf?: Array<JSONSchema | boolean>;
+  anyOf?: Array<JSONSchema | boolean>;
+  allOf?: Array<JSONSchema | boolean>;
+  not?: JSONSchema | boolean;
+  if?: JSONSchema | boolean;
+  then?: JSONSchema | boolean;
+  else?: JSONSchema | boolean;
+  [keyword: string]: any;
 }
 
 export interface APIConfig {
@@ -54,13 +318,77 @@ export interface EventCallback {
   (...args: any[]): void;
 }
 
+export interface MemoizeOptions<A extends any[] = any[]> {
+  key?: (...args: A) => string;
+  ttl?: number;
+  tags?: string[] | ((...args: A) => string[]);
+  namespace?: string;
+  cacheRejections?: boolean;
+}
+
+export interface CacheSnapshot {
+  version: number;
+  createdAt: number;
+  compression?: CompressionAlgorithm;
+  signature: 'sha256' | 'hmac-sha256';
+  checksum: string;
+  payload: string;
+}
+
+export interface CacheSnapshotExportOptions {
+  compress?: boolean | CompressionAlgorithm;
+  secret?: string;
+}
+
+export interface CacheSnapshotImportOptions {
+  secret?: string;
+  mode?: 'merge' | 'replace';
+}
+
+export interface CacheTier<T = any> {
+  get(key: string): Promise<T | undefined>;
+  set(key: string, value: T, options?: CacheSetOptions): Promise<void>;
+  delete(key: string): boolean | Promise<boolean>;
+  invalidateByTag(tag: string): string[] | void | Promise<string[] | void>;
+  ttl?(key: string): number | undefined;
+  getTags?(key: string): string[] | undefined;
+  clear?(): void | Promise<void>;
+}
+
+export interface TieredCacheOptions<T = any> {
+  tiers: CacheTier<T>[];
+  writeMode?: 'write-through' | 'write-back';
+  writeBackDelay?: number;
+  promoteOnHit?: boolean;
+}
+
+export type CacheEvictionReason = 'capacity' | 'memory' | 'oversized';
+
+export interface SmartCacheEvents {
+  set: { key: string; size: number; tags?: string[]; expiresAt: number };
+  hit: { key: string; stale: boolean; negative?: boolean };
+  miss: { key: string };
+  evict: { key: string; reason: CacheEvictionReason; policy: string; size: number };
+  expire: { key: string; expiresAt: number };
+  invalidate: { key: string; tag?: string; parent?: string; origin?: string };
+}
+
 export interface SmartCacheEntry<T> {
   value: T;
   timestamp: number;
   accessCount: number;
   lastAccessed: number;
   size: number;
+  originalSize?: number;
   tags?: string[];
+  dependsOn?: string[];
+  ttl?: number;
+  expiresAt?: number;
+  sliding?: boolean;
+  maxAge?: number;
+  staleWindow?: number;
+  refreshAhead?: number;
+  negative?: boolean;
 }
 
 export interface AIProcessorOptions {
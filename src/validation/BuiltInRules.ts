@@ -0,0 +1,104 @@
+import { ValidationRule } from '../types';
+import { ObjectUtils } from '../object/ObjectUtils';
+
+type BuiltInType = Exclude<ValidationRule['type'], 'required' | 'string' | 'number' | 'email' | 'url' | 'custom'>;
+
+type BuiltInCheck = (value: any, rule: ValidationRule) => boolean;
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const ISO_DATETIME = /^(\d{4})-(\d{2})-(\d{2})[Tt ](\d{2}):(\d{2})(:\d{2}(\.\d+)?)?([Zz]|[+-]\d{2}:?\d{2})$/;
+const SEMVER = /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(-((0|[1-9]\d*|\d*[a-z-][0-9a-z-]*)(\.(0|[1-9]\d*|\d*[a-z-][0-9a-z-]*))*))?(\+[0-9a-z-]+(\.[0-9a-z-]+)*)?$/i;
+
+/**
+ * Format and type checks behind the built-in `ValidationRule` types beyond
+ * the basic string/number/email/url ones; their messages live in
+ * `MessageCatalog` under the type name
+ */
+export class BuiltInRules {
+  static readonly TYPES: Record<BuiltInType, BuiltInCheck> = {
+    integer: value => Number.isInteger(value),
+    boolean: value => typeof value === 'boolean',
+    date: value => value instanceof Date ? !isNaN(value.getTime()) : BuiltInRules.isISODate(value),
+    datetime: value => value instanceof Date ? !isNaN(value.getTime()) : BuiltInRules.isISODateTime(value),
+    uuid: value => typeof value === 'string' &&
+      /^([0-9a-f]{8}-[0-9a-f]{4}-[1-8][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}|0{8}-0{4}-0{4}-0{4}-0{12})$/i.test(value),
+    ipv4: value => BuiltInRules.isIPv4(value),
+    ipv6: value => BuiltInRules.isIPv6(value),
+    phone: value => typeof value === 'string' && /^\+[1-9]\d{1,14}$/.test(value),
+    creditCard: value => BuiltInRules.isLuhnValid(value),
+    enum: (value, rule) => (rule.values || []).some(option => ObjectUtils.isEqual(option, value)),
+    hexColor: value => typeof value === 'string' && /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(value),
+    semver: value => typeof value === 'string' && SEMVER.test(value),
+    slug: value => typeof value === 'string' && /^[a-z0-9]+(-[a-z0-9]+)*$/.test(value),
+    array: value => Array.isArray(value)
+  };
+
+  static isISODate(value: any): boolean {
+    const match = typeof value === 'string' && ISO_DATE.exec(value);
+    return !!match && this.isCalendarDate(+match[1], +match[2], +match[3]);
+  }
+
+  static isISODateTime(value: any): boolean {
+    const match = typeof value === 'string' && ISO_DATETIME.exec(value);
+    if (!match || !this.isCalendarDate(+match[1], +match[2], +match[3])) return false;
+
+    const seconds = match[6] ? +match[6].slice(1, 3) : 0;
+    return +match[4] < 24 && +match[5] < 60 && seconds < 60;
+  }
+
+  static isIPv4(value: any): boolean {
+    return typeof value === 'string' &&
+      /^((25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/.test(value);
+  }
+
+  /**
+   * Full, `::`-compressed and IPv4-suffixed forms (`::ffff:10.0.0.1`)
+   */
+  static isIPv6(value: any): boolean {
+    if (typeof value !== 'string') return false;
+
+    // An embedded IPv4 address stands in for the last two groups
+    let address = value;
+    const tail = address.slice(address.lastIndexOf(':') + 1);
+    if (tail.includes('.')) {
+      if (!this.isIPv4(tail)) return false;
+      address = address.slice(0, address.length - tail.length) + '0:0';
+    }
+
+    const halves = address.split('::');
+    if (halves.length > 2) return false;
+
+    const groups = halves.reduce<string[]>((all, half) => half === '' ? all : all.concat(half.split(':')), []);
+    if (!groups.every(group => /^[0-9a-f]{1,4}$/i.test(group))) return false;
+
+    return halves.length === 2 ? groups.length < 8 : groups.length === 8;
+  }
+
+  /**
+   * Card numbers of 12-19 digits, optionally grouped with spaces or hyphens,
+   * whose Luhn checksum holds
+   */
+  static isLuhnValid(value: any): boolean {
+    if (typeof value !== 'string' && typeof value !== 'number') return false;
+
+    const digits = String(value).replace(/[\s-]/g, '');
+    if (!/^\d{12,19}$/.test(digits)) return false;
+
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+      let digit = +digits[digits.length - 1 - i];
+      if (i % 2 === 1) {
+        digit *= 2;
+        if (digit > 9) digit -= 9;
+      }
+      sum += digit;
+    }
+    return sum % 10 === 0;
+  }
+
+  private static isCalendarDate(year: number, month: number, day: number): boolean {
+    const date = new Date(0);
+    date.setUTCFullYear(year, month - 1, day);
+    return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+  }
+}
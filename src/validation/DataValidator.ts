@@ -1,15 +1,109 @@
-import { ValidationRule } from '../types';
+import {
+  AsyncValidationOptions,
+  ValidationCallOptions,
+  JSONSchema,
+  FieldTransform,
+  InferredFieldSchema,
+  ObjectValidationRule,
+  SchemaInferenceOptions,
+  StreamRowResult,
+  StreamValidationOptions,
+  StreamValidationSummary,
+  TypeScriptGenerationOptions,
+  TransformChange,
+  TransformFailure,
+  ValidationCondition,
+  ValidationRule,
+  ValidationStats
+} from '../types';
+import { AsyncQueue } from '../async/AsyncQueue';
+import { ObjectUtils } from '../object/ObjectUtils';
+import { BuiltInRules } from './BuiltInRules';
+import { FieldPath } from './FieldPath';
+import { FieldTransforms } from './FieldTransforms';
+import { JSONSchemaConverter } from './JSONSchemaConverter';
+import { MessageCatalog } from './MessageCatalog';
+import { RecordSource, RecordStream } from './RecordStream';
+import { SchemaInference } from './SchemaInference';
+import { TypeScriptGenerator } from './TypeScriptGenerator';
+
+type MessageContext = { field?: string; locale?: string };
+type HistoryEntry = { field: string; value: any; result: boolean; timestamp: number };
+type HistoryTally = {
+  total: number;
+  successful: number;
+  errorCounts: Map<string, number>;
+  hourly: Map<number, { total: number; successful: number }>;
+};
+
+// Distinct error messages tracked for a stream's `commonErrors`
+const MAX_TRACKED_STREAM_ERRORS = 1000;
 
 /**
  * Advanced Data Validator with AI-powered validation, schema inference, and smart error recovery
  */
 export class DataValidator {
+  private static messages = new MessageCatalog();
   private rules: Map<string, ValidationRule[]> = new Map();
+  private objectRules: ObjectValidationRule[] = [];
+  private transforms: Map<string, FieldTransform[]> = new Map();
+  private locale = 'en';
   private schemas: Map<string, any> = new Map();
-  private validationHistory: { field: string; value: any; result: boolean; timestamp: number }[] = [];
+  private validationHistory: HistoryEntry[] = [];
+  // Receives history entries instead of `validationHistory` while a stream validates a row
+  private historySink?: (entry: HistoryEntry) => void;
+
+  /**
+   * Register or extend the message catalog for a locale (`de`, `ja-JP`).
+   * Keys are those of `MessageCatalog.DEFAULTS`; missing keys fall back to
+   * the language (`de-AT` -> `de`) and then English.
+   */
+  static registerMessages(locale: string, messages: Record<string, string>): void {
+    this.messages.register(locale, messages);
+  }
+
+  /**
+   * Default locale for this validator's messages; calls can override it
+   * with the `locale` option
+   */
+  setLocale(locale: string): void {
+    this.locale = locale;
+  }
+
+  /**
+   * Create a validator from a JSON Schema (draft 2020-12): type, properties,
+   * required, additionalProperties, items/prefixItems, enum, const, pattern,
+   * format, min/max keywords, multipleOf, uniqueItems, oneOf/anyOf/allOf,
+   * not, if/then/else and local `$ref`s into `$defs`/`definitions`. Throws on
+   * assertions it cannot enforce, such as `patternProperties` or `contains`.
+   */
+  static fromJSONSchema(schema: JSONSchema | boolean): DataValidator {
+    const validator = new DataValidator();
+    const rules = JSONSchemaConverter.toRules(schema, compiled => {
+      const sub = new DataValidator();
+      compiled.forEach((fieldRules, field) => sub.addRules(field, fieldRules));
+      return value => {
+        const { isValid } = sub.validateObject(value);
+        sub.clearHistory();
+        return isValid;
+      };
+    });
+
+    rules.forEach((fieldRules, field) => validator.addRules(field, fieldRules));
+    return validator;
+  }
+
+  /**
+   * Export the registered rules as a JSON Schema, or convert an
+   * `inferSchema` result when one is given
+   */
+  toJSONSchema(inferred?: Record<string, any>): JSONSchema {
+    return inferred ? JSONSchemaConverter.fromInferred(inferred) : JSONSchemaConverter.fromRules(this.rules);
+  }
 
   /**
-   * Add validation rules for a field
+   * Add validation rules for a field. Fields may be dot/bracket paths
+   * (`address.zip`, `items[0].price`) with `*` wildcards (`items[*].price`).
    */
   addRule(field: string, rule: ValidationRule): void {
     if (!this.rules.has(field)) {
@@ -26,22 +120,140 @@ export class DataValidator {
   }
 
   /**
-   * Validate a single field
+   * Add transform steps for a field (paths and `*` wildcards as in `addRule`).
+   * Steps run in the order added, before any validation.
+   *
+   * @example
+   * validator.addTransform('email', { type: 'email' });
+   * validator.addTransform('price', [{ type: 'number' }, { type: 'round', decimals: 2 }]);
+   */
+  addTransform(field: string, transform: FieldTransform | FieldTransform[]): void {
+    const steps = this.transforms.get(field) || [];
+    steps.push(...(Array.isArray(transform) ? transform : [transform]));
+    this.transforms.set(field, steps);
+  }
+
+  /**
+   * Run the transform pipeline on a copy of `obj`, returning the result and
+   * an audit entry for every step that changed a value. A step that throws
+   * is reported in `failures` and leaves the field at its last good value.
+   */
+  transform<T = any>(obj: any): { data: T; changes: TransformChange[]; failures: TransformFailure[] } {
+    const changes: TransformChange[] = [];
+    const failures: TransformFailure[] = [];
+    if (this.transforms.size === 0 || obj === null || typeof obj !== 'object') {
+      return { data: obj, changes, failures };
+    }
+
+    const data = ObjectUtils.deepClone(obj);
+
+    for (const [field, steps] of this.transforms.entries()) {
+      for (const { path, value } of FieldPath.resolve(data, field)) {
+        let current = value;
+
+        for (const step of steps) {
+          let result: { value: any; reason: string };
+          try {
+            result = FieldTransforms.apply(step, current, data);
+          } catch (e) {
+            failures.push({ field: path, transform: step.type, error: e instanceof Error ? e.message : String(e) });
+            break;
+          }
+
+          const { value: next, reason } = result;
+          if (!Object.is(next, current)) {
+            changes.push({ field: path, transform: step.type, original: current, transformed: next, reason });
+            current = next;
+          }
+        }
+
+        if (!Object.is(current, value)) FieldPath.set(data, path, current);
+      }
+    }
+
+    return { data, changes, failures };
+  }
+
+  /**
+   * Add a rule over the whole object, for checks that span fields such as
+   * `endDate` after `startDate`. Failures are reported under each of
+   * `fields`, or under `_object` when none are given; the rule is skipped
+   * while any of those fields already has errors.
+   */
+  addObjectRule(rule: ObjectValidationRule): void {
+    this.objectRules.push(rule);
+  }
+
+  /**
+   * Start a conditional rule group that only applies while the value at
+   * `field` satisfies `predicate`
+   *
+   * @example
+   * validator.when('country', country => EU.includes(country)).then({
+   *   vatNumber: { type: 'required', message: 'VAT number is required in the EU' }
+   * });
    */
-  validateField(field: string, value: any): {
+  when(field: string, predicate: (value: any, obj: any) => boolean): {
+    then(rules: Record<string, ValidationRule | ValidationRule[]>): DataValidator;
+  } {
+    const when: ValidationCondition = { field, predicate };
+
+    return {
+      then: rules => {
+        Object.entries(rules).forEach(([target, fieldRules]) => {
+          (Array.isArray(fieldRules) ? fieldRules : [fieldRules]).forEach(rule => this.addRule(target, { ...rule, when }));
+        });
+        return this;
+      }
+    };
+  }
+
+  /**
+   * Validate a single field. Conditional rules are skipped since there is no
+   * object to evaluate their condition against.
+   */
+  validateField(field: string, value: any, options: ValidationCallOptions = {}): {
+    isValid: boolean;
+    errors: string[];
+    suggestions?: string[];
+  } {
+    const rules = (this.rules.get(field) || []).filter(rule => !rule.when);
+    return this.runRules(field, value, rules, options.locale || this.locale);
+  }
+
+  /**
+   * Validate an object including rules with an `asyncValidator`. Async rules
+   * for a path only run once its sync rules pass, one after another until
+   * the first failure; paths are checked concurrently up to `concurrency`.
+   * Rejects if `signal` aborts.
+   */
+  async validateObjectAsync(obj: any, options: AsyncValidationOptions = {}): Promise<ReturnType<DataValidator['validateObject']>> {
+    return this.runObjectAsync(obj, this.createAsyncQueue(options), options);
+  }
+
+  /**
+   * Batch variant of `validateObjectAsync`; concurrency is shared across the batch
+   */
+  async validateBatchAsync(objects: any[], options: AsyncValidationOptions = {}): Promise<ReturnType<DataValidator['validateBatch']>> {
+    const queue = this.createAsyncQueue(options);
+    const validations = await Promise.all(objects.map(obj => this.runObjectAsync(obj, queue, options)));
+    return this.summarizeBatch(validations);
+  }
+
+  private runRules(field: string, value: any, rules: ValidationRule[], locale: string): {
     isValid: boolean;
     errors: string[];
     suggestions?: string[];
   } {
-    const rules = this.rules.get(field) || [];
     const errors: string[] = [];
     const suggestions: string[] = [];
 
-    for (const rule of rules) {
-      const result = this.applyRule(rule, value);
+    // Async rules only run through validateObjectAsync
+    for (const rule of rules.filter(rule => !rule.asyncValidator)) {
+      const result = this.applyRule(rule, value, { field, locale });
       
       // Record validation history
-      this.validationHistory.push({
+      this.recordValidation({
         field,
         value,
         result: result.isValid,
@@ -57,7 +269,7 @@ export class DataValidator {
     }
 
     // AI-powered suggestions based on validation history
-    const aiSuggestions = this.generateAISuggestions(field, value);
+    const aiSuggestions = this.generateAISuggestions(field, value, locale);
     suggestions.push(...aiSuggestions);
 
     return {
@@ -68,9 +280,12 @@ export class DataValidator {
   }
 
   /**
-   * Validate an entire object
+   * Validate an entire object. Rule paths are resolved against the object, so
+   * errors are keyed by concrete path (`items[1].price`); fields missing from
+   * the object are checked against their `required` rules only. Object rules
+   * run after the field rules. Registered transforms are applied first.
    */
-  validateObject(obj: any): {
+  validateObject(obj: any, options: ValidationCallOptions = {}): {
     isValid: boolean;
     errors: { [field: string]: string[] };
     suggestions: { [field: string]: string[] };
@@ -81,25 +296,52 @@ export class DataValidator {
       confidence: number;
     };
   } {
+    const { data, failures } = this.transform(obj);
+    return this.validateData(data, options.locale || this.locale, failures);
+  }
+
+  /**
+   * Validate transformed data; fields whose transform failed report that
+   * failure instead of running their rules
+   */
+  private validateData(obj: any, locale: string, failures: TransformFailure[] = []): ReturnType<DataValidator['validateObject']> {
     const errors: { [field: string]: string[] } = {};
     const suggestions: { [field: string]: string[] } = {};
-    let validFields = 0;
 
-    const fields = Object.keys(obj);
-    
-    for (const field of fields) {
-      const result = this.validateField(field, obj[field]);
-      
-      if (result.isValid) {
-        validFields++;
-      } else {
-        errors[field] = result.errors;
-        if (result.suggestions) {
-          suggestions[field] = result.suggestions;
+    failures.forEach(({ field, transform }) => {
+      errors[field] = [this.message('transform', { transform }, { field, locale })];
+    });
+
+    const targets = this.resolveTargets(obj);
+
+    for (const [path, { value, ruleFields }] of targets.entries()) {
+      if (errors[path]) continue;
+
+      const pathErrors: string[] = [];
+      const pathSuggestions = new Set<string>();
+
+      for (const field of ruleFields) {
+        const rules = this.applicableRules(field, obj).filter(rule => value !== undefined || rule.type === 'required');
+        const result = this.runRules(field, value, rules, locale);
+
+        if (!result.isValid) {
+          pathErrors.push(...result.errors);
+          (result.suggestions || []).forEach(suggestion => pathSuggestions.add(suggestion));
+        }
+      }
+
+      if (pathErrors.length > 0) {
+        errors[path] = pathErrors;
+        if (pathSuggestions.size > 0) {
+          suggestions[path] = Array.from(pathSuggestions);
         }
       }
     }
 
+    this.runObjectRules(obj, errors, locale);
+
+    const fields = Array.from(new Set([...targets.keys(), ...Object.keys(errors)]));
+    const validFields = fields.filter(field => !errors[field]).length;
     const confidence = validFields / fields.length;
 
     return {
@@ -116,140 +358,139 @@ export class DataValidator {
   }
 
   /**
-   * Infer schema from data samples
+   * Infer schema from data samples, recursing into nested objects and arrays.
+   * Each property reports its type, detected format (email, url, uuid, date,
+   * datetime, ipv4, ipv6), an enum for low-cardinality values, observed
+   * ranges/lengths, and a `confidence` (share of samples of the inferred type).
    */
-  inferSchema(data: any[]): any {
-    if (data.length === 0) return {};
-
-    const schema: any = {};
-    const sampleSize = Math.min(100, data.length);
-    const samples = data.slice(0, sampleSize);
-
-    // Analyze each field
-    const fields = new Set<string>();
-    samples.forEach(item => {
-      if (typeof item === 'object' && item !== null) {
-        Object.keys(item).forEach(key => fields.add(key));
-      }
-    });
-
-    fields.forEach(field => {
-      const values = samples
-        .filter(item => item && typeof item === 'object' && item[field] !== undefined)
-        .map(item => item[field]);
+  inferSchema(data: any[], options: SchemaInferenceOptions = {}): Record<string, InferredFieldSchema> {
+    return SchemaInference.infer(data, options);
+  }
 
-      if (values.length > 0) {
-        schema[field] = this.inferFieldSchema(values);
-      }
-    });
+  /**
+   * Generate validation rules from schema: `inferSchema` output or an
+   * `ObjectUtils.schema` structure. Nested `properties` and array `items`
+   * become path rules (`address.zip`, `tags[*]`); type, format and bound
+   * rules are only added for properties inferred with at least
+   * `minConfidence`.
+   */
+  generateRulesFromSchema(schema: Record<string, any>, options: { minConfidence?: number } = {}): void {
+    const properties = SchemaInference.isInferred(schema) ? schema : SchemaInference.fromStructure(schema);
+    Object.keys(properties).forEach(field => this.addSchemaRules(field, properties[field], options.minConfidence ?? 1, true));
+  }
 
-    return schema;
+  /**
+   * Emit TypeScript declarations for the same schemas `generateRulesFromSchema`
+   * accepts, so generated types and rules describe the same shape
+   *
+   * @example
+   * const schema = validator.inferSchema(responses);
+   * fs.writeFileSync('user.d.ts', validator.toTypeScript(schema, { rootName: 'User' }));
+   * validator.generateRulesFromSchema(schema);
+   */
+  toTypeScript(schema: Record<string, any>, options: TypeScriptGenerationOptions = {}): string {
+    return TypeScriptGenerator.generate(schema, options);
   }
 
   /**
-   * Generate validation rules from schema
+   * Rules carry no messages of their own, so the catalog renders them in the
+   * caller's locale
    */
-  generateRulesFromSchema(schema: any): void {
-    Object.keys(schema).forEach(field => {
-      const fieldSchema = schema[field];
-      const rules: ValidationRule[] = [];
+  private addSchemaRules(field: string, fieldSchema: any, minConfidence: number, parentRequired: boolean): void {
+    let rules: ValidationRule[] = [];
+    // A nested property is only required while every ancestor is
+    const required = parentRequired && !!fieldSchema.required;
 
-      if (fieldSchema.required) {
-        rules.push({ type: 'required', message: `${field} is required` });
-      }
+    if (required) {
+      rules.push({ type: 'required' });
+    }
 
-      if (fieldSchema.type) {
-        switch (fieldSchema.type) {
-          case 'string':
-            rules.push({ type: 'string', message: `${field} must be a string` });
-            if (fieldSchema.minLength) {
-              rules.push({ 
-                type: 'custom', 
-                message: `${field} must be at least ${fieldSchema.minLength} characters`,
-                validator: (value: string) => value.length >= fieldSchema.minLength
-              });
-            }
-            if (fieldSchema.maxLength) {
-              rules.push({ 
-                type: 'custom', 
-                message: `${field} must be no more than ${fieldSchema.maxLength} characters`,
-                validator: (value: string) => value.length <= fieldSchema.maxLength
-              });
-            }
-            break;
+    const confident = fieldSchema.confidence === undefined || fieldSchema.confidence >= minConfidence;
+    if (fieldSchema.type && confident) {
+      switch (fieldSchema.type) {
+        case 'string':
+          rules.push({ type: 'string', min: fieldSchema.minLength || undefined, max: fieldSchema.maxLength });
+          if (fieldSchema.format) {
+            rules.push({ type: fieldSchema.format });
+          }
+          break;
 
-          case 'number':
-            rules.push({ type: 'number', message: `${field} must be a number` });
-            if (fieldSchema.min !== undefined) {
-              rules.push({ 
-                type: 'custom', 
-                message: `${field} must be at least ${fieldSchema.min}`,
-                validator: (value: number) => value >= fieldSchema.min
-              });
-            }
-            if (fieldSchema.max !== undefined) {
-              rules.push({ 
-                type: 'custom', 
-                message: `${field} must be no more than ${fieldSchema.max}`,
-                validator: (value: number) => value <= fieldSchema.max
-              });
-            }
-            break;
+        case 'number':
+          rules.push({ type: 'number', min: fieldSchema.min, max: fieldSchema.max });
+          break;
 
-          case 'email':
-            rules.push({ type: 'email', message: `${field} must be a valid email` });
-            break;
+        case 'boolean':
+          rules.push({ type: 'boolean' });
+          break;
 
-          case 'url':
-            rules.push({ type: 'url', message: `${field} must be a valid URL` });
-            break;
-        }
+        case 'object':
+          rules.push({
+            type: 'custom',
+            messageKey: 'plainObject',
+            validator: value => value !== null && typeof value === 'object' && !Array.isArray(value),
+            schema: { type: 'object' }
+          });
+          break;
+
+        case 'array':
+          rules.push({ type: 'array', min: fieldSchema.minItems, max: fieldSchema.maxItems });
+          break;
+
+        case 'email':
+        case 'url':
+          rules.push({ type: fieldSchema.type });
+          break;
       }
 
-      if (fieldSchema.pattern) {
-        rules.push({ 
-          type: 'custom', 
-          message: `${field} does not match the required pattern`,
-          validator: (value: string) => fieldSchema.pattern.test(value)
-        });
+      if (fieldSchema.enum) {
+        rules.push({ type: 'enum', values: fieldSchema.enum });
       }
+    }
+
+    if (fieldSchema.pattern) {
+      rules.push({ type: 'custom', pattern: fieldSchema.pattern, schema: { pattern: fieldSchema.pattern.source } });
+    }
+
+    if (fieldSchema.nullable) {
+      rules = rules.map(rule => rule.type === 'required'
+        ? { ...rule, validator: value => value !== undefined }
+        : { ...rule, nullable: true });
+    }
 
-      this.addRules(field, rules);
+    this.addRules(field, rules);
+
+    Object.entries(fieldSchema.properties || {}).forEach(([key, property]) => {
+      const segment = FieldPath.format([{ key, index: false }]);
+      this.addSchemaRules(segment.startsWith('[') ? field + segment : `${field}.${segment}`, property, minConfidence, required);
     });
+    if (fieldSchema.items) {
+      // A wildcard only visits existing items, so item rules apply whenever the array is present
+      this.addSchemaRules(`${field}[*]`, fieldSchema.items, minConfidence, true);
+    }
   }
 
   /**
-   * Smart data cleaning and correction
+   * Apply the registered transforms, in the shape returned before transforms
+   * were declarative
+   *
+   * @deprecated Use `transform`, which also reports the step behind each change
    */
   cleanData(obj: any): {
     cleaned: any;
     changes: { field: string; original: any; corrected: any; reason: string }[];
   } {
-    const cleaned = { ...obj };
-    const changes: { field: string; original: any; corrected: any; reason: string }[] = [];
-
-    Object.keys(cleaned).forEach(field => {
-      const original = cleaned[field];
-      const corrected = this.correctValue(field, original);
-      
-      if (corrected !== original) {
-        cleaned[field] = corrected;
-        changes.push({
-          field,
-          original,
-          corrected,
-          reason: this.getCorrectionReason(field, original, corrected)
-        });
-      }
-    });
+    const { data, changes } = this.transform(obj);
 
-    return { cleaned, changes };
+    return {
+      cleaned: data,
+      changes: changes.map(({ field, original, transformed, reason }) => ({ field, original, corrected: transformed, reason }))
+    };
   }
 
   /**
    * Batch validate multiple objects
    */
-  validateBatch(objects: any[]): {
+  validateBatch(objects: any[], options: ValidationCallOptions = {}): {
     results: Array<{
       index: number;
       isValid: boolean;
@@ -263,8 +504,82 @@ export class DataValidator {
       commonErrors: string[];
     };
   } {
-    const results = objects.map((obj, index) => {
-      const validation = this.validateObject(obj);
+    return this.summarizeBatch(objects.map(obj => this.validateObject(obj, options)));
+  }
+
+  /**
+   * Validate NDJSON or CSV rows from a Node readable stream or any (async)
+   * iterable of text/byte chunks, row by row in bounded memory. Each row is
+   * transformed and checked against the sync rules (async rules do not run)
+   * and reported to `onRow` with its line number; `onRow` is awaited, so a
+   * slow consumer slows reading. Rows are not kept and do not enter the
+   * validator's history; the summary carries the equivalent statistics.
+   *
+   * @example
+   * const summary = await validator.validateStream(fs.createReadStream('users.csv'), {
+   *   format: 'csv',
+   *   onRow: row => { if (!row.isValid) report(row.line, row.errors); }
+   * });
+   */
+  async validateStream(source: RecordSource, options: StreamValidationOptions = {}): Promise<StreamValidationSummary> {
+    const maxLineLength = options.maxLineLength ?? 1024 * 1024;
+    const maxInvalidLines = options.maxInvalidLines ?? 100;
+    const locale = options.locale || this.locale;
+    const records = options.format === 'csv'
+      ? RecordStream.csv(source, { delimiter: options.delimiter || ',', headers: options.headers, maxLineLength })
+      : RecordStream.ndjson(source, maxLineLength);
+
+    const tally = DataValidator.createTally();
+    const errorCounts = new Map<string, number>();
+    const summary = { totalRows: 0, validRows: 0, invalidRows: 0, parseErrors: 0, invalidLines: [] as number[] };
+
+    for await (const record of records) {
+      let result: StreamRowResult;
+
+      if (record.error !== undefined) {
+        summary.parseErrors++;
+        result = { line: record.line, isValid: false, errors: { _row: [record.error] }, suggestions: {} };
+      } else {
+        this.historySink = entry => DataValidator.tally(tally, entry);
+        try {
+          const { data, failures } = this.transform(record.row);
+          const { isValid, errors, suggestions } = this.validateData(data, locale, failures);
+          result = { line: record.line, isValid, data, errors, suggestions };
+        } catch (e) {
+          // One bad row must not end the stream
+          result = { line: record.line, isValid: false, errors: { _row: [this.message('error', {}, { field: '_row', locale })] }, suggestions: {} };
+        } finally {
+          this.historySink = undefined;
+        }
+      }
+
+      summary.totalRows++;
+      if (result.isValid) {
+        summary.validRows++;
+      } else {
+        summary.invalidRows++;
+        if (summary.invalidLines.length < maxInvalidLines) summary.invalidLines.push(record.line);
+
+        Object.values(result.errors).forEach(messages => messages.forEach(message => {
+          if (errorCounts.has(message) || errorCounts.size < MAX_TRACKED_STREAM_ERRORS) {
+            errorCounts.set(message, (errorCounts.get(message) || 0) + 1);
+          }
+        }));
+      }
+
+      if (options.onRow) await options.onRow(result);
+    }
+
+    const commonErrors = Array.from(errorCounts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 5)
+      .map(([error]) => error);
+
+    return { ...DataValidator.statsFromTally(tally), ...summary, commonErrors };
+  }
+
+  private summarizeBatch(validations: Array<ReturnType<DataValidator['validateObject']>>): ReturnType<DataValidator['validateBatch']> {
+    const results = validations.map((validation, index) => {
       return {
         index,
         isValid: validation.isValid,
@@ -279,9 +594,9 @@ export class DataValidator {
     return {
       results,
       summary: {
-        totalObjects: objects.length,
+        totalObjects: validations.length,
         validObjects,
-        invalidObjects: objects.length - validObjects,
+        invalidObjects: validations.length - validObjects,
         commonErrors
       }
     };
@@ -290,164 +605,366 @@ export class DataValidator {
   /**
    * Get validation statistics
    */
-  getValidationStats(): {
-    totalValidations: number;
-    successRate: number;
-    topErrors: { field: string; errorCount: number }[];
-    validationTrends: { timestamp: number; successRate: number }[];
+  getValidationStats(): ValidationStats {
+    const tally = DataValidator.createTally();
+    this.validationHistory.forEach(entry => DataValidator.tally(tally, entry));
+    return DataValidator.statsFromTally(tally);
+  }
+
+  /**
+   * Check a value against a single rule without recording history
+   */
+  checkRule(rule: ValidationRule, value: any, options: ValidationCallOptions & { field?: string } = {}): {
+    isValid: boolean;
+    error: string;
+    suggestion?: string;
   } {
-    const totalValidations = this.validationHistory.length;
-    const successfulValidations = this.validationHistory.filter(v => v.result).length;
-    const successRate = totalValidations > 0 ? successfulValidations / totalValidations : 0;
+    return this.applyRule(rule, value, { field: options.field, locale: options.locale || this.locale });
+  }
 
-    // Count errors by field
-    const errorCounts = new Map<string, number>();
-    this.validationHistory.forEach(v => {
-      if (!v.result) {
-        errorCounts.set(v.field, (errorCounts.get(v.field) || 0) + 1);
+  /**
+   * Clear validation history
+   */
+  clearHistory(): void {
+    this.validationHistory = [];
+  }
+
+  private recordValidation(entry: HistoryEntry): void {
+    if (this.historySink) {
+      this.historySink(entry);
+    } else {
+      this.validationHistory.push(entry);
+    }
+  }
+
+  private createAsyncQueue(options: AsyncValidationOptions): AsyncQueue {
+    // Timeouts are applied per rule inside each task, so the queue's own limit is effectively disabled
+    return new AsyncQueue({ concurrency: options.concurrency || 4, timeout: 2147483647 });
+  }
+
+  private async runObjectAsync(
+    obj: any,
+    queue: AsyncQueue,
+    options: AsyncValidationOptions
+  ): Promise<ReturnType<DataValidator['validateObject']>> {
+    const { signal } = options;
+    if (signal?.aborted) throw this.abortReason(signal);
+
+    const { data, failures } = this.transform(obj);
+    const result = this.validateData(data, options.locale || this.locale, failures);
+    const checks: Promise<void>[] = [];
+
+    for (const [path, { value, ruleFields }] of this.resolveTargets(data).entries()) {
+      // Short-circuit: expensive async rules never run for absent or already invalid values
+      if (value === undefined || result.errors[path]) continue;
+
+      const asyncRules = ruleFields.flatMap(field =>
+        this.applicableRules(field, data).filter(rule => rule.asyncValidator).map(rule => ({ field, rule }))
+      );
+      if (asyncRules.length === 0) continue;
+
+      checks.push(queue.add(() => this.runAsyncRules(value, asyncRules, options)).then(error => {
+        if (error === undefined) return;
+        result.errors[path] = [error];
+        result.summary.validFields--;
+        result.summary.invalidFields++;
+      }));
+    }
+
+    await this.abortable(Promise.all(checks), queue, signal);
+
+    result.isValid = Object.keys(result.errors).length === 0;
+    result.summary.confidence = result.summary.validFields / result.summary.totalFields;
+    return result;
+  }
+
+  /**
+   * Run a path's async rules in order, returning the first error
+   */
+  private async runAsyncRules(
+    value: any,
+    rules: Array<{ field: string; rule: ValidationRule }>,
+    options: AsyncValidationOptions
+  ): Promise<string | undefined> {
+    for (const { field, rule } of rules) {
+      if (options.signal?.aborted) return undefined;
+
+      const timeout = rule.timeout ?? options.timeout;
+      const context = { field, locale: options.locale || this.locale };
+      let isValid: boolean;
+      let error = this.ruleMessage(rule, 'async', { value }, context);
+
+      try {
+        const check = rule.asyncValidator!(value, { field, signal: options.signal });
+        isValid = await (timeout ? this.withTimeout(check, timeout) : check);
+      } catch (e) {
+        isValid = false;
+        error = e instanceof Error && e.message === 'Validation timeout'
+          ? this.message('timeout', { timeout }, context)
+          : this.message('error', {}, context);
       }
+
+      this.recordValidation({ field, value, result: isValid, timestamp: Date.now() });
+      if (!isValid) return error;
+    }
+
+    return undefined;
+  }
+
+  private withTimeout<R>(promise: Promise<R>, ms: number): Promise<R> {
+    return new Promise((resolve, reject) => {
+      const timeoutId = setTimeout(() => reject(new Error('Validation timeout')), ms);
+      promise.then(
+        result => {
+          clearTimeout(timeoutId);
+          resolve(result);
+        },
+        error => {
+          clearTimeout(timeoutId);
+          reject(error);
+        }
+      );
     });
+  }
 
-    const topErrors = Array.from(errorCounts.entries())
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, 10)
-      .map(([field, errorCount]) => ({ field, errorCount }));
+  /**
+   * Settle with `work`, or reject as soon as the signal aborts; pending
+   * queued checks are dropped on abort
+   */
+  private abortable<R>(work: Promise<R>, queue: AsyncQueue, signal?: AbortSignal): Promise<R> {
+    if (!signal) return work;
 
-    // Calculate trends (hourly buckets)
-    const trends = this.calculateValidationTrends();
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        queue.clear();
+        reject(this.abortReason(signal));
+      };
 
-    return {
-      totalValidations,
-      successRate,
-      topErrors,
-      validationTrends: trends
+      if (signal.aborted) return onAbort();
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      work.then(
+        result => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(result);
+        },
+        error => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  private abortReason(signal: AbortSignal): Error {
+    return signal.reason instanceof Error ? signal.reason : new Error('Validation aborted');
+  }
+
+  /**
+   * Rules registered for `field` whose condition, if any, holds for `obj`
+   */
+  private applicableRules(field: string, obj: any): ValidationRule[] {
+    return (this.rules.get(field) || []).filter(rule => !rule.when || this.conditionHolds(rule.when, obj));
+  }
+
+  private conditionHolds(condition: ValidationCondition, obj: any): boolean {
+    const [target] = FieldPath.resolve(obj, condition.field);
+
+    try {
+      return condition.predicate(target?.value, obj);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Run object rules, attributing each failure to the rule's fields
+   */
+  private runObjectRules(obj: any, errors: { [field: string]: string[] }, locale: string): void {
+    for (const rule of this.objectRules) {
+      if (rule.when && !this.conditionHolds(rule.when, obj)) continue;
+
+      const fields = rule.fields && rule.fields.length > 0 ? rule.fields : ['_object'];
+      if (fields.some(field => errors[field])) continue;
+
+      const context = { field: fields.join(', '), locale };
+      let isValid: boolean;
+      let error = this.ruleMessage(rule, 'object', {}, context);
+
+      try {
+        isValid = rule.validator(obj);
+      } catch (e) {
+        isValid = false;
+        error = this.message('error', {}, context);
+      }
+
+      fields.forEach(field => {
+        this.recordValidation({ field, value: obj, result: isValid, timestamp: Date.now() });
+        if (!isValid) errors[field] = [...(errors[field] || []), error];
+      });
+    }
+  }
+
+  /**
+   * Concrete paths to validate: every top-level property, plus every path the
+   * registered rule paths resolve to, each with the rule keys that apply
+   */
+  private resolveTargets(obj: any): Map<string, { value: any; ruleFields: string[] }> {
+    const targets = new Map<string, { value: any; ruleFields: string[] }>();
+    const add = (path: string, value: any, field?: string) => {
+      const target = targets.get(path) || { value, ruleFields: [] };
+      if (field !== undefined) target.ruleFields.push(field);
+      targets.set(path, target);
     };
+
+    if (obj !== null && typeof obj === 'object') {
+      Object.keys(obj).forEach(key => add(FieldPath.format([{ key, index: false }]), obj[key]));
+    }
+
+    for (const field of this.rules.keys()) {
+      FieldPath.resolve(obj, field).forEach(({ path, value }) => add(path, value, field));
+    }
+
+    return targets;
   }
 
   /**
-   * Clear validation history
+   * Check a value's type, then the rule's `min`/`max` (length for strings and
+   * arrays, value for numbers) and `pattern` (strings); `nullable` rules pass `null`
    */
-  clearHistory(): void {
-    this.validationHistory = [];
+  private applyRule(rule: ValidationRule, value: any, context: MessageContext): {
+    isValid: boolean;
+    error: string;
+    suggestion?: string;
+  } {
+    if (rule.nullable && value === null) return { isValid: true, error: '' };
+
+    const result = this.applyTypeRule(rule, value, context);
+    return result.isValid ? this.applyBounds(rule, value, context) : result;
   }
 
-  private applyRule(rule: ValidationRule, value: any): {
+  private applyBounds(rule: ValidationRule, value: any, context: MessageContext): {
     isValid: boolean;
     error: string;
     suggestion?: string;
   } {
+    const unit = typeof value === 'string' ? 'length' : Array.isArray(value) ? 'items' : typeof value === 'number' ? 'value' : undefined;
+    const actual = unit === 'value' ? value : unit ? value.length : undefined;
+    const params = { value, actual, min: rule.min, max: rule.max };
+
+    if (unit && rule.min !== undefined && actual < rule.min) {
+      return this.ruleResult(rule, false, `min.${unit}`, params, context);
+    }
+    if (unit && rule.max !== undefined && actual > rule.max) {
+      return this.ruleResult(rule, false, `max.${unit}`, params, context);
+    }
+    if (rule.pattern && typeof value === 'string') {
+      rule.pattern.lastIndex = 0;
+      if (!rule.pattern.test(value)) {
+        return this.ruleResult(rule, false, 'pattern', params, context);
+      }
+    }
+
+    return { isValid: true, error: '' };
+  }
+
+  private applyTypeRule(rule: ValidationRule, value: any, context: MessageContext): {
+    isValid: boolean;
+    error: string;
+    suggestion?: string;
+  } {
+    const check = (isValid: boolean, params: Record<string, any> = {}) =>
+      this.ruleResult(rule, isValid, rule.type, { value, ...rule.params, ...params }, context);
+
     switch (rule.type) {
       case 'required':
-        return {
-          isValid: value !== undefined && value !== null && value !== '',
-          error: rule.message || 'This field is required',
-          suggestion: 'Please provide a value for this field'
-        };
+        // A validator narrows what counts as present (e.g. JSON Schema allows null and '')
+        return check(rule.validator ? rule.validator(value) : value !== undefined && value !== null && value !== '');
 
       case 'string':
-        const isString = typeof value === 'string';
-        return {
-          isValid: isString,
-          error: rule.message || 'Must be a string',
-          suggestion: isString ? undefined : 'Please provide a text value'
-        };
+        return check(typeof value === 'string');
 
       case 'number':
-        const isNumber = typeof value === 'number' && !isNaN(value);
-        return {
-          isValid: isNumber,
-          error: rule.message || 'Must be a number',
-          suggestion: isNumber ? undefined : 'Please provide a numeric value'
-        };
+        return check(typeof value === 'number' && !isNaN(value));
 
       case 'email':
         const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-        const isValidEmail = typeof value === 'string' && emailRegex.test(value);
-        return {
-          isValid: isValidEmail,
-          error: rule.message || 'Must be a valid email address',
-          suggestion: isValidEmail ? undefined : 'Please provide a valid email (e.g., user@example.com)'
-        };
+        return check(typeof value === 'string' && emailRegex.test(value));
 
       case 'url':
         const urlRegex = /^https?:\/\/.+/;
-        const isValidUrl = typeof value === 'string' && urlRegex.test(value);
-        return {
-          isValid: isValidUrl,
-          error: rule.message || 'Must be a valid URL',
-          suggestion: isValidUrl ? undefined : 'Please provide a valid URL starting with http:// or https://'
-        };
+        return check(typeof value === 'string' && urlRegex.test(value));
 
       case 'custom':
-        if (rule.validator) {
-          try {
-            const isValid = rule.validator(value);
-            return {
-              isValid,
-              error: rule.message || 'Custom validation failed',
-              suggestion: isValid ? undefined : 'Please check the value format'
-            };
-          } catch (error) {
-            return {
-              isValid: false,
-              error: 'Validation error occurred',
-              suggestion: 'Please check the value format'
-            };
-          }
+        if (!rule.validator) {
+          return { isValid: true, error: '' };
         }
-        return {
-          isValid: true,
-          error: ''
-        };
-
-      default:
-        return {
-          isValid: true,
-          error: ''
-        };
-    }
-  }
-
-  private inferFieldSchema(values: any[]): any {
-    const schema: any = {};
-    
-    // Determine type
-    const types = new Set(values.map(v => typeof v));
-    if (types.size === 1) {
-      const type = Array.from(types)[0];
-      schema.type = type;
-      
-      if (type === 'string') {
-        const lengths = values.map(v => v.length);
-        schema.minLength = Math.min(...lengths);
-        schema.maxLength = Math.max(...lengths);
-        
-        // Check for email pattern
-        if (values.every(v => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v))) {
-          schema.type = 'email';
+        try {
+          return check(rule.validator(value));
+        } catch (error) {
+          return {
+            isValid: false,
+            error: this.message('error', {}, context),
+            suggestion: this.message('custom.suggestion', {}, context)
+          };
         }
-        
-        // Check for URL pattern
-        if (values.every(v => /^https?:\/\/.+/.test(v))) {
-          schema.type = 'url';
+
+      default: {
+        const builtIn = BuiltInRules.TYPES[rule.type];
+        if (builtIn) {
+          return check(builtIn(value, rule), {
+            values: (rule.values || []).map(option => JSON.stringify(option)).join(', ')
+          });
         }
-      }
-      
-      if (type === 'number') {
-        schema.min = Math.min(...values);
-        schema.max = Math.max(...values);
+        return { isValid: true, error: '' };
       }
     }
-    
-    // Determine if required (present in most samples)
-    const nonNullValues = values.filter(v => v !== null && v !== undefined);
-    schema.required = nonNullValues.length > values.length * 0.8;
-    
-    return schema;
   }
 
-  private generateAISuggestions(field: string, value: any): string[] {
+  /**
+   * Result for a rule check; on failure the error is the rule's `messageKey`
+   * or `message` template, else the catalog message for `key`, and the
+   * suggestion is the catalog's `<key>.suggestion`
+   */
+  private ruleResult(
+    rule: ValidationRule,
+    isValid: boolean,
+    key: string,
+    params: Record<string, any>,
+    context: MessageContext
+  ): { isValid: boolean; error: string; suggestion?: string } {
+    if (isValid) {
+      return { isValid, error: '' };
+    }
+
+    const suggestionKey = `${key}.suggestion`;
+    return {
+      isValid,
+      error: this.ruleMessage(rule, key, params, context),
+      suggestion: DataValidator.messages.has(suggestionKey, context.locale)
+        ? this.message(suggestionKey, params, context)
+        : undefined
+    };
+  }
+
+  private ruleMessage(
+    rule: { message?: string; messageKey?: string },
+    key: string,
+    params: Record<string, any>,
+    context: MessageContext
+  ): string {
+    if (rule.messageKey) return this.message(rule.messageKey, params, context);
+    if (rule.message) return DataValidator.messages.format(rule.message, { field: context.field, ...params }, context.locale);
+    return this.message(key, params, context);
+  }
+
+  private message(key: string, params: Record<string, any>, context: MessageContext): string {
+    return DataValidator.messages.translate(key, { field: context.field, ...params }, context.locale);
+  }
+
+  private generateAISuggestions(field: string, value: any, locale: string): string[] {
     const suggestions: string[] = [];
+    const suggest = (key: string, params: Record<string, any> = {}) => suggestions.push(this.message(key, params, { field, locale }));
     
     // Analyze validation history for patterns
     const fieldHistory = this.validationHistory
@@ -458,85 +975,35 @@ export class DataValidator {
       const failureRate = fieldHistory.filter(v => !v.result).length / fieldHistory.length;
       
       if (failureRate > 0.5) {
-        suggestions.push(`This field has a high failure rate (${(failureRate * 100).toFixed(1)}%). Consider reviewing the validation requirements.`);
+        suggest('suggestion.failureRate', { rate: (failureRate * 100).toFixed(1) });
       }
     }
     
     // Type-specific suggestions
     if (typeof value === 'string') {
       if (value.length < 3) {
-        suggestions.push('Consider if this value is too short');
+        suggest('suggestion.short');
       }
       if (value.includes(' ') && field.toLowerCase().includes('username')) {
-        suggestions.push('Username typically should not contain spaces');
+        suggest('suggestion.usernameSpaces');
       }
       if (field.toLowerCase().includes('email') && !value.includes('@')) {
-        suggestions.push('Email addresses should contain @ symbol');
+        suggest('suggestion.emailAt');
       }
     }
     
     if (typeof value === 'number') {
       if (value < 0 && field.toLowerCase().includes('age')) {
-        suggestions.push('Age cannot be negative');
+        suggest('suggestion.negativeAge');
       }
       if (value > 150 && field.toLowerCase().includes('age')) {
-        suggestions.push('Age seems unusually high');
+        suggest('suggestion.highAge');
       }
     }
     
     return suggestions;
   }
 
-  private correctValue(field: string, value: any): any {
-    if (typeof value === 'string') {
-      // Trim whitespace
-      let corrected = value.trim();
-      
-      // Common corrections
-      if (field.toLowerCase().includes('email')) {
-        corrected = corrected.toLowerCase();
-      }
-      
-      if (field.toLowerCase().includes('phone')) {
-        // Remove common phone formatting
-        corrected = corrected.replace(/[\s\-\(\)\.]/g, '');
-      }
-      
-      if (field.toLowerCase().includes('url')) {
-        if (!corrected.startsWith('http://') && !corrected.startsWith('https://')) {
-          corrected = 'https://' + corrected;
-        }
-      }
-      
-      return corrected;
-    }
-    
-    if (typeof value === 'number') {
-      // Round to reasonable precision
-      if (field.toLowerCase().includes('price') || field.toLowerCase().includes('amount')) {
-        return Math.round(value * 100) / 100; // 2 decimal places
-      }
-    }
-    
-    return value;
-  }
-
-  private getCorrectionReason(field: string, original: any, corrected: any): string {
-    if (typeof original === 'string' && typeof corrected === 'string') {
-      if (original.trim() !== original) {
-        return 'Removed leading/trailing whitespace';
-      }
-      if (field.toLowerCase().includes('email') && original !== corrected) {
-        return 'Converted to lowercase';
-      }
-      if (field.toLowerCase().includes('url') && !original.startsWith('http')) {
-        return 'Added https:// prefix';
-      }
-    }
-    
-    return 'Applied automatic correction';
-  }
-
   private findCommonErrors(results: any[]): string[] {
     const errorCounts = new Map<string, number>();
     
@@ -554,28 +1021,47 @@ export class DataValidator {
       .map(([error]) => error);
   }
 
-  private calculateValidationTrends(): { timestamp: number; successRate: number }[] {
-    const hourlyBuckets = new Map<number, { total: number; successful: number }>();
-    
-    this.validationHistory.forEach(validation => {
-      const hourBucket = Math.floor(validation.timestamp / (1000 * 60 * 60)) * (1000 * 60 * 60);
-      
-      if (!hourlyBuckets.has(hourBucket)) {
-        hourlyBuckets.set(hourBucket, { total: 0, successful: 0 });
-      }
-      
-      const bucket = hourlyBuckets.get(hourBucket)!;
-      bucket.total++;
-      if (validation.result) {
-        bucket.successful++;
-      }
-    });
-    
-    return Array.from(hourlyBuckets.entries())
+  private static createTally(): HistoryTally {
+    return { total: 0, successful: 0, errorCounts: new Map(), hourly: new Map() };
+  }
+
+  private static tally(tally: HistoryTally, entry: HistoryEntry): void {
+    tally.total++;
+    if (entry.result) {
+      tally.successful++;
+    } else {
+      // Count errors by field
+      tally.errorCounts.set(entry.field, (tally.errorCounts.get(entry.field) || 0) + 1);
+    }
+
+    // Hourly buckets for trends
+    const hourBucket = Math.floor(entry.timestamp / (1000 * 60 * 60)) * (1000 * 60 * 60);
+    const bucket = tally.hourly.get(hourBucket) || { total: 0, successful: 0 };
+    bucket.total++;
+    if (entry.result) {
+      bucket.successful++;
+    }
+    tally.hourly.set(hourBucket, bucket);
+  }
+
+  private static statsFromTally(tally: HistoryTally): ValidationStats {
+    const topErrors = Array.from(tally.errorCounts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 10)
+      .map(([field, errorCount]) => ({ field, errorCount }));
+
+    const validationTrends = Array.from(tally.hourly.entries())
       .sort((a, b) => a[0] - b[0])
       .map(([timestamp, stats]) => ({
         timestamp,
         successRate: stats.successful / stats.total
       }));
+
+    return {
+      totalValidations: tally.total,
+      successRate: tally.total > 0 ? tally.successful / tally.total : 0,
+      topErrors,
+      validationTrends
+    };
   }
 }
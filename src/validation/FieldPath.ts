@@ -0,0 +1,92 @@
+export type FieldPathSegment = { key: string; index: boolean } | { wildcard: true };
+
+/**
+ * Dot/bracket field paths such as `address.zip`, `items[0].price` and
+ * `items[*].price`, where `*` matches every array element or object property
+ */
+export class FieldPath {
+  private static readonly TOKEN = /\[\s*(\*|\d+|"[^"]*"|'[^']*')\s*\]|\*|[^.[\]]+/g;
+
+  static parse(path: string): FieldPathSegment[] {
+    const segments: FieldPathSegment[] = [];
+
+    for (const match of path.matchAll(this.TOKEN)) {
+      const [token, bracketed] = match;
+
+      if (token === '*' || bracketed === '*') {
+        segments.push({ wildcard: true });
+      } else if (bracketed !== undefined) {
+        const quoted = /^["']/.test(bracketed);
+        segments.push({ key: quoted ? bracketed.slice(1, -1) : bracketed, index: !quoted });
+      } else {
+        segments.push({ key: token, index: false });
+      }
+    }
+
+    return segments;
+  }
+
+  /**
+   * Join concrete segments back into a path, using brackets for array indices
+   */
+  static format(segments: Array<{ key: string; index: boolean }>): string {
+    return segments.reduce((path, { key, index }) => {
+      if (index) return `${path}[${key}]`;
+      if (/[.[\]]/.test(key)) return `${path}[${JSON.stringify(key)}]`;
+      return path ? `${path}.${key}` : key;
+    }, '');
+  }
+
+  /**
+   * Expand a path against a value into every concrete path it addresses.
+   * Missing intermediate values still resolve (to `undefined`) so required
+   * checks can fire; a wildcard over a missing or empty collection resolves
+   * to nothing.
+   */
+  static resolve(root: any, path: string): Array<{ path: string; value: any }> {
+    const results: Array<{ path: string; value: any }> = [];
+
+    const walk = (value: any, segments: FieldPathSegment[], trail: Array<{ key: string; index: boolean }>): void => {
+      if (segments.length === 0) {
+        results.push({ path: this.format(trail), value });
+        return;
+      }
+
+      const [segment, ...rest] = segments;
+
+      if ('wildcard' in segment) {
+        if (Array.isArray(value)) {
+          value.forEach((item, i) => walk(item, rest, [...trail, { key: String(i), index: true }]));
+        } else if (value !== null && typeof value === 'object') {
+          Object.keys(value).forEach(key => walk(value[key], rest, [...trail, { key, index: false }]));
+        }
+        return;
+      }
+
+      const next = value !== null && typeof value === 'object' ? value[segment.key] : undefined;
+      walk(next, rest, [...trail, segment]);
+    };
+
+    walk(root, this.parse(path), []);
+    return results;
+  }
+
+  /**
+   * Set the value at a concrete path, creating missing objects and arrays
+   */
+  static set(root: any, path: string, value: any): void {
+    const segments = this.parse(path) as Array<{ key: string; index: boolean }>;
+    let current = root;
+
+    segments.forEach(({ key }, i) => {
+      if (i === segments.length - 1) {
+        current[key] = value;
+        return;
+      }
+      if (current[key] === null || typeof current[key] !== 'object') {
+        current[key] = segments[i + 1].index ? [] : {};
+      }
+      current = current[key];
+    });
+  }
+}
@@ -0,0 +1,115 @@
+import { FieldTransform } from '../types';
+
+const TRUE_STRINGS = ['true', 'yes', 'y', 'on', '1'];
+const FALSE_STRINGS = ['false', 'no', 'n', 'off', '0'];
+
+/**
+ * The built-in steps of a field transform pipeline. Each step leaves values it
+ * cannot convert untouched so that validation reports them instead.
+ */
+export class FieldTransforms {
+  /**
+   * Apply one step, returning the new value and why it changed
+   */
+  static apply(step: FieldTransform, value: any, obj: any): { value: any; reason: string } {
+    const result = (next: any, reason: string) => ({ value: next, reason: step.reason || reason });
+
+    switch (step.type) {
+      case 'trim':
+        return result(typeof value === 'string' ? value.trim() : value, 'Removed leading/trailing whitespace');
+
+      case 'lowercase':
+        return result(typeof value === 'string' ? value.toLowerCase() : value, 'Converted to lowercase');
+
+      case 'uppercase':
+        return result(typeof value === 'string' ? value.toUpperCase() : value, 'Converted to uppercase');
+
+      case 'number':
+        return result(this.toNumber(value), 'Parsed number from text');
+
+      case 'boolean':
+        return result(this.toBoolean(value), 'Parsed boolean from text');
+
+      case 'date':
+        return result(this.toDate(value), 'Parsed date');
+
+      case 'round': {
+        const decimals = step.decimals ?? 0;
+        const factor = Math.pow(10, decimals);
+        return result(
+          typeof value === 'number' && isFinite(value) ? Math.round(value * factor) / factor : value,
+          `Rounded to ${decimals} decimal places`
+        );
+      }
+
+      case 'default':
+        return result(
+          value === undefined || value === null ? (typeof step.value === 'function' ? step.value() : step.value) : value,
+          'Applied default value'
+        );
+
+      case 'email':
+        return result(typeof value === 'string' ? value.trim().toLowerCase() : value, 'Normalized email address');
+
+      case 'phone':
+        return result(this.toE164(value, step.countryCode), 'Normalized phone number to E.164');
+
+      case 'custom':
+        return result(step.transform ? step.transform(value, obj) : value, 'Applied custom transform');
+
+      default:
+        return result(value, '');
+    }
+  }
+
+  /**
+   * Parse numeric text, allowing surrounding whitespace and `,` thousands separators
+   */
+  private static toNumber(value: any): any {
+    if (typeof value !== 'string') return value;
+
+    const text = value.trim();
+    if (!/^[+-]?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?([eE][+-]?\d+)?$/.test(text) || !/\d/.test(text)) return value;
+
+    return Number(text.replace(/,/g, ''));
+  }
+
+  private static toBoolean(value: any): any {
+    if (value === 1 || value === 0) return value === 1;
+    if (typeof value !== 'string') return value;
+
+    const text = value.trim().toLowerCase();
+    if (TRUE_STRINGS.includes(text)) return true;
+    if (FALSE_STRINGS.includes(text)) return false;
+    return value;
+  }
+
+  private static toDate(value: any): any {
+    if (typeof value !== 'string' && typeof value !== 'number') return value;
+    if (typeof value === 'string' && value.trim() === '') return value;
+
+    const date = new Date(typeof value === 'string' ? value.trim() : value);
+    return isNaN(date.getTime()) ? value : date;
+  }
+
+  /**
+   * Strip formatting, turn a `00` international prefix into `+`, and prefix
+   * national numbers with `countryCode` (dropping a leading trunk `0`).
+   * National numbers are left as they are when no `countryCode` is given.
+   */
+  private static toE164(value: any, countryCode?: string): any {
+    if (typeof value !== 'string') return value;
+
+    let digits = value.trim().replace(/[\s\-().]/g, '');
+    if (!/^\+?\d+$/.test(digits)) return value;
+
+    if (digits.startsWith('00')) {
+      digits = '+' + digits.slice(2);
+    } else if (!digits.startsWith('+')) {
+      if (!countryCode) return value;
+      digits = '+' + countryCode.replace(/^\+/, '') + digits.replace(/^0/, '');
+    }
+
+    return digits;
+  }
+}
@@ -0,0 +1,516 @@
+import { JSONSchema, ValidationRule } from '../types';
+import { ObjectUtils } from '../object/ObjectUtils';
+import { FieldPath } from './FieldPath';
+import { BuiltInRules } from './BuiltInRules';
+
+type RuleMap = Map<string, ValidationRule[]>;
+type Matcher = (value: any) => boolean;
+
+/**
+ * Turns compiled rules into a predicate; supplied by DataValidator so this
+ * module does not depend on it
+ */
+export type RuleCompiler = (rules: RuleMap) => Matcher;
+
+const DRAFT_2020_12 = 'https://json-schema.org/draft/2020-12/schema';
+
+// Shared with the built-in rule types so imported and exported formats agree
+const FORMATS: Record<string, (value: string) => boolean> = {
+  // RFC 3339 requires the `T`, seconds and a `:` in the offset
+  'date-time': value => /^[^ ]+[Tt]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/.test(value) && BuiltInRules.isISODateTime(value),
+  date: value => BuiltInRules.isISODate(value),
+  time: value => /^([01]\d|2[0-3]):[0-5]\d:[0-5]\d(\.\d+)?([Zz]|[+-]([01]\d|2[0-3]):[0-5]\d)?$/.test(value),
+  uuid: value => BuiltInRules.TYPES.uuid(value, { type: 'uuid' }),
+  ipv4: value => BuiltInRules.isIPv4(value),
+  ipv6: value => BuiltInRules.isIPv6(value),
+  hostname: value => /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*$/i.test(value)
+};
+
+// Catalog keys for the formats that have a built-in rule message; others use `schema.format`
+const FORMAT_MESSAGES: Record<string, string> = { 'date-time': 'datetime', date: 'date', uuid: 'uuid', ipv4: 'ipv4', ipv6: 'ipv6' };
+
+// Assertions this converter cannot enforce; importing them would silently validate less
+const UNSUPPORTED_KEYWORDS = [
+  'patternProperties', 'propertyNames', 'dependentRequired', 'dependentSchemas', 'dependencies',
+  'contains', 'minContains', 'maxContains', 'unevaluatedProperties', 'unevaluatedItems',
+  'additionalItems', '$dynamicRef', '$recursiveRef'
+];
+
+// inferSchema format names that differ from JSON Schema's
+const INFERRED_FORMATS: Record<string, string> = { url: 'uri', datetime: 'date-time' };
+
+/**
+ * Converts between JSON Schema (draft 2020-12) and DataValidator rules.
+ *
+ * Structural keywords become path rules (`properties` -> `a.b`, `items` ->
+ * `a[*]`), so errors keep per-field paths. Keywords that need a whole
+ * sub-schema to decide (`anyOf`, `oneOf`, recursive `$ref`) become custom
+ * rules backed by a lazily compiled matcher. Every generated rule carries the
+ * schema fragment it enforces, which lets `fromRules` round-trip it.
+ */
+export class JSONSchemaConverter {
+  static toRules(schema: JSONSchema | boolean, compile: RuleCompiler): RuleMap {
+    const rules: RuleMap = new Map();
+    this.collect(schema, '', true, { root: schema, compile, refs: [], rules });
+    return rules;
+  }
+
+  /**
+   * Build a JSON Schema from rules keyed by field path
+   */
+  static fromRules(rules: RuleMap): JSONSchema {
+    const root: JSONSchema = { $schema: DRAFT_2020_12, type: 'object' };
+
+    for (const [path, fieldRules] of rules.entries()) {
+      const { node, parent, key } = this.nodeAt(root, path);
+
+      for (const rule of fieldRules) {
+        // Conditional rules have no unconditional JSON Schema equivalent
+        if (rule.when) continue;
+
+        if (rule.type === 'required') {
+          if (parent && key !== undefined) {
+            parent.required = Array.from(new Set([...(parent.required || []), key]));
+          }
+        } else {
+          const fragment = rule.schema || this.ruleToSchema(rule);
+          this.merge(node, rule.nullable ? this.allowNull(fragment) : fragment);
+        }
+      }
+    }
+
+    return root;
+  }
+
+  /**
+   * Build a JSON Schema from `DataValidator.inferSchema` output
+   */
+  static fromInferred(inferred: Record<string, any>): JSONSchema {
+    return { $schema: DRAFT_2020_12, ...this.inferredObjectToSchema(inferred) };
+  }
+
+  private static inferredObjectToSchema(properties: Record<string, any>): JSONSchema {
+    const schema: JSONSchema = { type: 'object', properties: {} };
+    const required: string[] = [];
+
+    for (const [field, fieldSchema] of Object.entries(properties)) {
+      schema.properties![field] = this.inferredFieldToSchema(fieldSchema);
+      if (fieldSchema.required) required.push(field);
+    }
+
+    if (required.length > 0) schema.required = required;
+    return schema;
+  }
+
+  private static inferredFieldToSchema(field: any): JSONSchema {
+    const schema: JSONSchema = {};
+
+    switch (field.type) {
+      // Older inferSchema output used these as types
+      case 'email':
+        Object.assign(schema, { type: 'string', format: 'email' });
+        break;
+      case 'url':
+        Object.assign(schema, { type: 'string', format: 'uri' });
+        break;
+      case 'string':
+      case 'number':
+      case 'boolean':
+      case 'array':
+        schema.type = field.type;
+        break;
+      case 'object':
+        Object.assign(schema, field.properties ? this.inferredObjectToSchema(field.properties) : { type: 'object' });
+        break;
+    }
+
+    if (field.format) {
+      schema.format = INFERRED_FORMATS[field.format] || field.format;
+    }
+    if (field.nullable && typeof schema.type === 'string') {
+      schema.type = [schema.type, 'null'];
+    }
+    if (field.enum) schema.enum = field.nullable ? [...field.enum, null] : field.enum;
+    if (field.minLength !== undefined) schema.minLength = field.minLength;
+    if (field.maxLength !== undefined) schema.maxLength = field.maxLength;
+    if (field.min !== undefined) schema.minimum = field.min;
+    if (field.max !== undefined) schema.maximum = field.max;
+    if (field.minItems !== undefined) schema.minItems = field.minItems;
+    if (field.maxItems !== undefined) schema.maxItems = field.maxItems;
+    if (field.items) schema.items = this.inferredFieldToSchema(field.items);
+    if (field.pattern instanceof RegExp) schema.pattern = field.pattern.source;
+
+    return schema;
+  }
+
+  /**
+   * Widen a fragment's `type` and `enum` to also accept `null`
+   */
+  private static allowNull(fragment: JSONSchema): JSONSchema {
+    const widened = { ...fragment };
+    if (typeof widened.type === 'string') widened.type = [widened.type, 'null'];
+    if (widened.enum) widened.enum = [...widened.enum, null];
+    return widened;
+  }
+
+  private static ruleToSchema(rule: ValidationRule): JSONSchema {
+    switch (rule.type) {
+      case 'string':
+        return {
+          type: 'string',
+          ...(rule.min !== undefined ? { minLength: rule.min } : {}),
+          ...(rule.max !== undefined ? { maxLength: rule.max } : {}),
+          ...(rule.pattern ? { pattern: rule.pattern.source } : {})
+        };
+      case 'number':
+        return {
+          type: 'number',
+          ...(rule.min !== undefined ? { minimum: rule.min } : {}),
+          ...(rule.max !== undefined ? { maximum: rule.max } : {})
+        };
+      case 'integer':
+        return {
+          type: 'integer',
+          ...(rule.min !== undefined ? { minimum: rule.min } : {}),
+          ...(rule.max !== undefined ? { maximum: rule.max } : {})
+        };
+      case 'boolean':
+        return { type: 'boolean' };
+      case 'email':
+        return { type: 'string', format: 'email' };
+      case 'url':
+        return { type: 'string', format: 'uri' };
+      case 'date':
+        return { type: 'string', format: 'date' };
+      case 'datetime':
+        return { type: 'string', format: 'date-time' };
+      case 'uuid':
+      case 'ipv4':
+      case 'ipv6':
+        return { type: 'string', format: rule.type };
+      case 'phone':
+        return { type: 'string', pattern: '^\\+[1-9]\\d{1,14}$' };
+      case 'hexColor':
+        return { type: 'string', pattern: '^#([0-9a-fA-F]{3,4}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$' };
+      case 'slug':
+        return { type: 'string', pattern: '^[a-z0-9]+(-[a-z0-9]+)*$' };
+      case 'enum':
+        return { enum: rule.values || [] };
+      case 'array':
+        return {
+          type: 'array',
+          ...(rule.min !== undefined ? { minItems: rule.min } : {}),
+          ...(rule.max !== undefined ? { maxItems: rule.max } : {})
+        };
+      default:
+        // Custom validators have no JSON Schema equivalent
+        return {};
+    }
+  }
+
+  private static collect(
+    schema: JSONSchema | boolean,
+    path: string,
+    present: boolean,
+    context: { root: JSONSchema | boolean; compile: RuleCompiler; refs: string[]; rules: RuleMap }
+  ): void {
+    const add = (rule: ValidationRule) => {
+      const fieldRules = context.rules.get(path) || [];
+      fieldRules.push(rule);
+      context.rules.set(path, fieldRules);
+    };
+    // Messages come from the catalog (`MessageCatalog` keys), so imported rules follow the locale
+    const check = (fragment: JSONSchema | boolean, messageKey: string, validator: Matcher, params?: Record<string, any>) => {
+      add({ type: 'custom', messageKey, params, validator, schema: fragment as JSONSchema });
+    };
+
+    if (schema === true) return;
+    if (schema === false) {
+      check(false, 'schema.false', () => false);
+      return;
+    }
+
+    const unsupported = UNSUPPORTED_KEYWORDS.filter(keyword => keyword in schema);
+    if (unsupported.length > 0) {
+      throw new Error(`Unsupported JSON Schema keyword${unsupported.length > 1 ? 's' : ''} at ${path || '#'}: ${unsupported.join(', ')}`);
+    }
+
+    if (schema.$ref !== undefined) {
+      const target = this.resolveRef(context.root, schema.$ref);
+
+      if (context.refs.includes(schema.$ref)) {
+        // Recursive reference: validate the whole subtree with a lazy matcher
+        const matches = this.lazyMatcher(target, context);
+        check({ $ref: schema.$ref }, 'schema.ref', matches, { ref: schema.$ref });
+      } else {
+        this.collect(target, path, present, { ...context, refs: [...context.refs, schema.$ref] });
+      }
+    }
+
+    if (schema.type !== undefined) {
+      const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+      if (types.length === 1 && types[0] === 'string') {
+        add({ type: 'string', schema: { type: 'string' } });
+      } else if (types.length === 1 && types[0] === 'number') {
+        add({ type: 'number', schema: { type: 'number' } });
+      } else {
+        check({ type: schema.type }, 'schema.type', value => types.some(type => this.isType(value, type)), { types: types.join(', ') });
+      }
+    }
+
+    if (schema.enum !== undefined) {
+      add({ type: 'enum', values: schema.enum, schema: { enum: schema.enum } });
+    }
+
+    if ('const' in schema) {
+      const expected = schema.const;
+      check({ const: expected }, 'schema.const', value => ObjectUtils.isEqual(expected, value), { expected: JSON.stringify(expected) });
+    }
+
+    const strings = (validator: (value: string) => boolean): Matcher =>
+      value => typeof value !== 'string' || validator(value);
+    const numbers = (validator: (value: number) => boolean): Matcher =>
+      value => typeof value !== 'number' || validator(value);
+    const arrays = (validator: (value: any[]) => boolean): Matcher =>
+      value => !Array.isArray(value) || validator(value);
+
+    if (schema.pattern !== undefined) {
+      const pattern = new RegExp(schema.pattern, 'u');
+      check({ pattern: schema.pattern }, 'pattern', strings(value => pattern.test(value)));
+    }
+
+    if (schema.format !== undefined) {
+      if (schema.format === 'email') {
+        add({ type: 'email', schema: { format: 'email' } });
+      } else if (schema.format === 'uri' || schema.format === 'url') {
+        add({ type: 'url', schema: { format: schema.format } });
+      } else if (FORMATS[schema.format]) {
+        const format = FORMATS[schema.format];
+        check({ format: schema.format }, FORMAT_MESSAGES[schema.format] || 'schema.format', strings(format), { format: schema.format });
+      }
+      // Unknown formats are annotations only, as the spec allows
+    }
+
+    if (schema.minLength !== undefined) {
+      const min = schema.minLength;
+      check({ minLength: min }, 'min.length', strings(value => [...value].length >= min), { min });
+    }
+    if (schema.maxLength !== undefined) {
+      const max = schema.maxLength;
+      check({ maxLength: max }, 'max.length', strings(value => [...value].length <= max), { max });
+    }
+    if (schema.minimum !== undefined) {
+      const min = schema.minimum;
+      check({ minimum: min }, 'min.value', numbers(value => value >= min), { min });
+    }
+    if (schema.maximum !== undefined) {
+      const max = schema.maximum;
+      check({ maximum: max }, 'max.value', numbers(value => value <= max), { max });
+    }
+    if (schema.exclusiveMinimum !== undefined) {
+      const min = schema.exclusiveMinimum;
+      check({ exclusiveMinimum: min }, 'schema.exclusiveMinimum', numbers(value => value > min), { min });
+    }
+    if (schema.exclusiveMaximum !== undefined) {
+      const max = schema.exclusiveMaximum;
+      check({ exclusiveMaximum: max }, 'schema.exclusiveMaximum', numbers(value => value < max), { max });
+    }
+    if (schema.multipleOf !== undefined) {
+      const factor = schema.multipleOf;
+      // Compare the quotient to an integer with a tolerance, so 0.3 is a multiple of 0.1
+      check({ multipleOf: factor }, 'schema.multipleOf',
+        numbers(value => Math.abs(value / factor - Math.round(value / factor)) < 1e-9), { factor });
+    }
+    if (schema.minItems !== undefined) {
+      const min = schema.minItems;
+      check({ minItems: min }, 'min.items', arrays(value => value.length >= min), { min });
+    }
+    if (schema.maxItems !== undefined) {
+      const max = schema.maxItems;
+      check({ maxItems: max }, 'max.items', arrays(value => value.length <= max), { max });
+    }
+    if (schema.uniqueItems === true) {
+      check({ uniqueItems: true }, 'schema.uniqueItems',
+        arrays(value => value.every((item, i) => value.findIndex(other => ObjectUtils.isEqual(other, item)) === i)));
+    }
+
+    const objects = (validator: (value: Record<string, any>) => boolean): Matcher =>
+      value => value === null || typeof value !== 'object' || Array.isArray(value) || validator(value);
+
+    if (schema.minProperties !== undefined) {
+      const min = schema.minProperties;
+      check({ minProperties: min }, 'schema.minProperties', objects(value => Object.keys(value).length >= min), { min });
+    }
+    if (schema.maxProperties !== undefined) {
+      const max = schema.maxProperties;
+      check({ maxProperties: max }, 'schema.maxProperties', objects(value => Object.keys(value).length <= max), { max });
+    }
+    if (schema.additionalProperties !== undefined && schema.additionalProperties !== true) {
+      const known = new Set(Object.keys(schema.properties || {}));
+      const matches = this.lazyMatcher(schema.additionalProperties, context);
+      check({ additionalProperties: schema.additionalProperties }, 'schema.additionalProperties',
+        objects(value => Object.keys(value).every(key => known.has(key) || matches(value[key]))));
+    }
+
+    const required = new Set<string>(schema.required || []);
+    for (const key of required) {
+      if (present) {
+        const childPath = this.childPath(path, key);
+        context.rules.set(childPath, [
+          ...(context.rules.get(childPath) || []),
+          { type: 'required', validator: value => value !== undefined }
+        ]);
+      } else {
+        // The object itself may be absent, so only check it when it exists
+        check({ required: [key] }, 'schema.required',
+          value => value === null || typeof value !== 'object' || Array.isArray(value) || value[key] !== undefined, { property: key });
+      }
+    }
+
+    for (const [key, property] of Object.entries(schema.properties || {})) {
+      this.collect(property, this.childPath(path, key), present && required.has(key), context);
+    }
+
+    const prefixItems = schema.prefixItems || [];
+    prefixItems.forEach((item, i) => this.collect(item, `${path}[${i}]`, false, context));
+
+    if (schema.items !== undefined) {
+      if (prefixItems.length === 0) {
+        this.collect(schema.items, `${path}[*]`, true, context);
+      } else {
+        const matches = this.lazyMatcher(schema.items, context);
+        check({ items: schema.items }, 'schema.items',
+          arrays(value => value.slice(prefixItems.length).every(matches)));
+      }
+    }
+
+    (schema.allOf || []).forEach(sub => this.collect(sub, path, present, context));
+
+    if (schema.anyOf) {
+      const matchers = schema.anyOf.map(sub => this.lazyMatcher(sub, context));
+      check({ anyOf: schema.anyOf }, 'schema.anyOf', value => matchers.some(m => m(value)));
+    }
+
+    if (schema.oneOf) {
+      const matchers = schema.oneOf.map(sub => this.lazyMatcher(sub, context));
+      check({ oneOf: schema.oneOf }, 'schema.oneOf',
+        value => matchers.filter(m => m(value)).length === 1);
+    }
+
+    if (schema.not !== undefined) {
+      const matches = this.lazyMatcher(schema.not, context);
+      check({ not: schema.not }, 'schema.not', value => !matches(value));
+    }
+
+    if (schema.if !== undefined && (schema.then !== undefined || schema.else !== undefined)) {
+      const condition = this.lazyMatcher(schema.if, context);
+      const then = this.lazyMatcher(schema.then ?? true, context);
+      const otherwise = this.lazyMatcher(schema.else ?? true, context);
+      const fragment: JSONSchema = { if: schema.if };
+      if (schema.then !== undefined) fragment.then = schema.then;
+      if (schema.else !== undefined) fragment.else = schema.else;
+      check(fragment, 'schema.if', value => condition(value) ? then(value) : otherwise(value));
+    }
+  }
+
+  /**
+   * Compile a sub-schema on first use, so recursive schemas terminate
+   */
+  private static lazyMatcher(
+    schema: JSONSchema | boolean,
+    context: { root: JSONSchema | boolean; compile: RuleCompiler }
+  ): Matcher {
+    let matcher: Matcher | undefined;
+
+    return value => {
+      if (!matcher) {
+        const rules: RuleMap = new Map();
+        this.collect(schema, '', true, { root: context.root, compile: context.compile, refs: [], rules });
+        matcher = context.compile(rules);
+      }
+      return matcher(value);
+    };
+  }
+
+  /**
+   * Resolve a local reference (`#`, `#/$defs/Name`, `#/definitions/Name`)
+   */
+  private static resolveRef(root: JSONSchema | boolean, ref: string): JSONSchema | boolean {
+    if (!ref.startsWith('#')) {
+      throw new Error(`Only local $ref values are supported: ${ref}`);
+    }
+
+    const target = ref
+      .slice(1)
+      .split('/')
+      .filter(Boolean)
+      .map(part => decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~'))
+      .reduce((node: any, part) => (node == null ? undefined : node[part]), root);
+
+    if (target === undefined) {
+      throw new Error(`Unresolvable $ref: ${ref}`);
+    }
+    return target;
+  }
+
+  private static isType(value: any, type: string): boolean {
+    switch (type) {
+      case 'string': return typeof value === 'string';
+      case 'number': return typeof value === 'number' && Number.isFinite(value);
+      case 'integer': return Number.isInteger(value);
+      case 'boolean': return typeof value === 'boolean';
+      case 'null': return value === null;
+      case 'array': return Array.isArray(value);
+      case 'object': return value !== null && typeof value === 'object' && !Array.isArray(value);
+      default: return false;
+    }
+  }
+
+  private static childPath(path: string, key: string): string {
+    const segment = /[.[\]*]/.test(key) ? `[${JSON.stringify(key)}]` : key;
+    return !path || segment.startsWith('[') ? `${path}${segment}` : `${path}.${segment}`;
+  }
+
+  /**
+   * Find (creating as needed) the schema node for a rule path
+   */
+  private static nodeAt(root: JSONSchema, path: string): { node: JSONSchema; parent?: JSONSchema; key?: string } {
+    let node = root;
+    let parent: JSONSchema | undefined;
+    let key: string | undefined;
+
+    for (const segment of FieldPath.parse(path)) {
+      parent = node;
+
+      if ('wildcard' in segment || segment.index) {
+        node.type = node.type || 'array';
+        node.items = (node.items as JSONSchema) || {};
+        node = node.items as JSONSchema;
+        key = undefined;
+      } else {
+        node.type = node.type || 'object';
+        node.properties = node.properties || {};
+        node.properties[segment.key] = node.properties[segment.key] || {};
+        node = node.properties[segment.key] as JSONSchema;
+        key = segment.key;
+      }
+    }
+
+    return { node, parent, key };
+  }
+
+  private static merge(target: JSONSchema, fragment: JSONSchema | boolean): void {
+    if (typeof fragment === 'boolean') {
+      if (!fragment) target.not = {};
+      return;
+    }
+
+    for (const [keyword, value] of Object.entries(fragment)) {
+      if (keyword === 'required' && Array.isArray(value)) {
+        target.required = Array.from(new Set([...(target.required || []), ...value]));
+      } else {
+        target[keyword] = value;
+      }
+    }
+  }
+}
@@ -0,0 +1,208 @@
+type Messages = Record<string, string>;
+
+/**
+ * Validation message templates per locale. Templates take `{name}`
+ * placeholders and ICU-style plurals such as
+ * `{min, plural, one {# character} other {# characters}}`, where `#` is the
+ * count and branches are chosen with `Intl.PluralRules` (`=0` style exact
+ * matches are also supported).
+ */
+export class MessageCatalog {
+  /** Built-in English messages; their keys are the ones translations provide */
+  static readonly DEFAULTS: Messages = {
+    required: 'This field is required',
+    'required.suggestion': 'Please provide a value for this field',
+    string: 'Must be a string',
+    'string.suggestion': 'Please provide a text value',
+    number: 'Must be a number',
+    'number.suggestion': 'Please provide a numeric value',
+    email: 'Must be a valid email address',
+    'email.suggestion': 'Please provide a valid email (e.g., user@example.com)',
+    url: 'Must be a valid URL',
+    'url.suggestion': 'Please provide a valid URL starting with http:// or https://',
+    custom: 'Custom validation failed',
+    'custom.suggestion': 'Please check the value format',
+    integer: 'Must be an integer',
+    'integer.suggestion': 'Please provide a whole number',
+    boolean: 'Must be true or false',
+    'boolean.suggestion': 'Please provide true or false',
+    date: 'Must be a valid date',
+    'date.suggestion': 'Please provide a date in YYYY-MM-DD format',
+    datetime: 'Must be a valid ISO 8601 date-time',
+    'datetime.suggestion': 'Please provide a date-time such as 2024-01-31T09:30:00Z',
+    uuid: 'Must be a valid UUID',
+    'uuid.suggestion': 'Please provide a UUID (e.g., 123e4567-e89b-12d3-a456-426614174000)',
+    ipv4: 'Must be a valid IPv4 address',
+    'ipv4.suggestion': 'Please provide four numbers from 0 to 255 separated by dots (e.g., 192.168.0.1)',
+    ipv6: 'Must be a valid IPv6 address',
+    'ipv6.suggestion': 'Please provide an IPv6 address (e.g., 2001:db8::1)',
+    phone: 'Must be a valid phone number in E.164 format',
+    'phone.suggestion': 'Please include the country code without spaces (e.g., +14155550123)',
+    creditCard: 'Must be a valid card number',
+    'creditCard.suggestion': 'Please check the card number for typos',
+    enum: 'Must be one of: {values}',
+    'enum.suggestion': 'Please choose one of the allowed values',
+    hexColor: 'Must be a hex color',
+    'hexColor.suggestion': 'Please provide a color such as #1e90ff',
+    semver: 'Must be a semantic version',
+    'semver.suggestion': 'Please provide a version such as 1.4.2',
+    slug: 'Must be a slug',
+    'slug.suggestion': 'Please use lowercase letters, digits and single hyphens (e.g., my-post-title)',
+    'min.length': 'Must be at least {min, plural, one {# character} other {# characters}}',
+    'min.length.suggestion': 'Please increase the length to at least {min}',
+    'max.length': 'Must be no more than {max, plural, one {# character} other {# characters}}',
+    'max.length.suggestion': 'Please reduce the length to at most {max}',
+    'min.items': 'Must be at least {min, plural, one {# item} other {# items}}',
+    'min.items.suggestion': 'Please increase the number of items to at least {min}',
+    'max.items': 'Must be no more than {max, plural, one {# item} other {# items}}',
+    'max.items.suggestion': 'Please reduce the number of items to at most {max}',
+    'min.value': 'Must be at least {min}',
+    'min.value.suggestion': 'Please increase the value to at least {min}',
+    'max.value': 'Must be no more than {max}',
+    'max.value.suggestion': 'Please reduce the value to at most {max}',
+    pattern: 'Does not match the required pattern',
+    'pattern.suggestion': 'Please check the value format',
+    async: 'Async validation failed',
+    timeout: 'Validation timed out after {timeout}ms',
+    object: 'Object validation failed',
+    array: 'Must be an array',
+    plainObject: 'Must be an object',
+    refine: 'Invalid value',
+    transform: 'Could not apply the {transform} transform',
+    'schema.false': 'No value is allowed here',
+    'schema.ref': 'Does not match {ref}',
+    'schema.type': 'Must be of type: {types}',
+    'schema.const': 'Must be {expected}',
+    'schema.format': 'Must be a valid {format}',
+    'schema.exclusiveMinimum': 'Must be greater than {min}',
+    'schema.exclusiveMaximum': 'Must be less than {max}',
+    'schema.multipleOf': 'Must be a multiple of {factor}',
+    'schema.uniqueItems': 'Must not contain duplicate items',
+    'schema.minProperties': 'Must have at least {min, plural, one {# property} other {# properties}}',
+    'schema.maxProperties': 'Must have no more than {max, plural, one {# property} other {# properties}}',
+    'schema.additionalProperties': 'Has properties that are not allowed',
+    'schema.required': '{property} is required',
+    'schema.items': 'Array items do not match the schema',
+    'schema.anyOf': 'Must match at least one allowed schema',
+    'schema.oneOf': 'Must match exactly one allowed schema',
+    'schema.not': 'Must not match the excluded schema',
+    'schema.if': 'Does not match the conditional schema',
+    error: 'Validation error occurred',
+    'suggestion.failureRate': 'This field has a high failure rate ({rate}%). Consider reviewing the validation requirements.',
+    'suggestion.short': 'Consider if this value is too short',
+    'suggestion.usernameSpaces': 'Username typically should not contain spaces',
+    'suggestion.emailAt': 'Email addresses should contain @ symbol',
+    'suggestion.negativeAge': 'Age cannot be negative',
+    'suggestion.highAge': 'Age seems unusually high'
+  };
+
+  private catalogs = new Map<string, Messages>();
+  private pluralRules = new Map<string, Intl.PluralRules>();
+
+  constructor(private fallbackLocale = 'en') {
+    this.register(fallbackLocale, MessageCatalog.DEFAULTS);
+  }
+
+  /**
+   * Add or override messages for a locale such as `de` or `ja-JP`
+   */
+  register(locale: string, messages: Messages): void {
+    this.catalogs.set(locale, { ...(this.catalogs.get(locale) || {}), ...messages });
+  }
+
+  has(key: string, locale = this.fallbackLocale): boolean {
+    return this.lookup(key, locale) !== undefined;
+  }
+
+  /**
+   * Render the message for `key`, trying the locale, then its language
+   * (`de-AT` -> `de`), then the fallback locale; unknown keys render as-is
+   */
+  translate(key: string, params: Record<string, any> = {}, locale = this.fallbackLocale): string {
+    return this.format(this.lookup(key, locale) ?? key, params, locale);
+  }
+
+  /**
+   * Fill a template's placeholders; placeholders without a param are kept
+   */
+  format(template: string, params: Record<string, any>, locale = this.fallbackLocale): string {
+    let output = '';
+    let i = 0;
+
+    while (i < template.length) {
+      const open = template.indexOf('{', i);
+      const close = open === -1 ? -1 : this.matchingBrace(template, open);
+      if (close === -1) {
+        output += template.slice(i);
+        break;
+      }
+
+      output += template.slice(i, open) + this.placeholder(template.slice(open + 1, close), template.slice(open, close + 1), params, locale);
+      i = close + 1;
+    }
+
+    return output;
+  }
+
+  private placeholder(body: string, raw: string, params: Record<string, any>, locale: string): string {
+    const [name, kind] = body.split(',', 2).map(part => part.trim());
+    if (!Object.prototype.hasOwnProperty.call(params, name)) return raw;
+
+    if (kind !== 'plural') return String(params[name]);
+
+    const count = Number(params[name]);
+    const branches = this.pluralBranches(body.slice(body.indexOf('plural') + 'plural'.length).replace(/^\s*,/, ''));
+    const branch = branches[`=${count}`] ?? branches[this.pluralRule(locale).select(count)] ?? branches.other;
+
+    return branch === undefined ? String(count) : this.format(branch.replace(/#/g, String(count)), params, locale);
+  }
+
+  private pluralBranches(text: string): Record<string, string> {
+    const branches: Record<string, string> = {};
+    const selector = /\s*(=\d+|[a-z]+)\s*\{/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = selector.exec(text))) {
+      const open = match.index + match[0].length - 1;
+      const close = this.matchingBrace(text, open);
+      if (close === -1) break;
+
+      branches[match[1]] = text.slice(open + 1, close);
+      selector.lastIndex = close + 1;
+    }
+
+    return branches;
+  }
+
+  private matchingBrace(text: string, open: number): number {
+    let depth = 0;
+    for (let i = open; i < text.length; i++) {
+      if (text[i] === '{') depth++;
+      if (text[i] === '}' && --depth === 0) return i;
+    }
+    return -1;
+  }
+
+  private lookup(key: string, locale: string): string | undefined {
+    const candidates = [locale, locale.split('-')[0], this.fallbackLocale];
+    for (const candidate of candidates) {
+      const messages = this.catalogs.get(candidate);
+      // Own keys only, so `constructor` or `toString` are not found on the prototype
+      if (messages && Object.prototype.hasOwnProperty.call(messages, key)) return messages[key];
+    }
+    return undefined;
+  }
+
+  private pluralRule(locale: string): Intl.PluralRules {
+    let rule = this.pluralRules.get(locale);
+    if (!rule) {
+      try {
+        rule = new Intl.PluralRules(locale);
+      } catch (error) {
+        rule = new Intl.PluralRules(this.fallbackLocale);
+      }
+      this.pluralRules.set(locale, rule);
+    }
+    return rule;
+  }
+}
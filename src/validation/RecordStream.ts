@@ -0,0 +1,190 @@
+export type RecordSource = AsyncIterable<any> | Iterable<any>;
+
+interface CsvRecord {
+  line: number;
+  length: number;
+  cells: Array<{ value: string; quoted: boolean }>;
+  cell: string;
+  quoted: boolean;
+  inQuotes: boolean;
+}
+
+/**
+ * A parsed record and the (1-based) line it starts on; `error` is set
+ * instead of `row` when the record could not be parsed
+ */
+export interface StreamRecord {
+  line: number;
+  row?: any;
+  error?: string;
+}
+
+/**
+ * Incremental NDJSON and CSV parsing over chunked text. Only the current
+ * line (or the current CSV record while inside a quoted field) is buffered,
+ * so memory stays bounded regardless of input size.
+ */
+export class RecordStream {
+  /**
+   * Split chunks into lines. Strings and byte chunks (Buffers, Uint8Arrays)
+   * are decoded as UTF-8 across chunk boundaries; any other chunk is passed
+   * through as an already-parsed record.
+   */
+  static async *lines(source: RecordSource, maxLineLength: number): AsyncGenerator<{ line: number; text?: string; row?: any }> {
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let line = 0;
+
+    for await (const chunk of source as AsyncIterable<any>) {
+      if (typeof chunk !== 'string' && !(chunk instanceof Uint8Array)) {
+        yield { line: ++line, row: chunk };
+        continue;
+      }
+
+      buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+
+      // Scan from an offset and drop consumed text once per chunk
+      let start = 0;
+      let newline: number;
+      while ((newline = buffer.indexOf('\n', start)) !== -1) {
+        yield { line: ++line, text: this.checkLength(buffer.slice(start, newline).replace(/\r$/, ''), line, maxLineLength) };
+        start = newline + 1;
+      }
+      buffer = buffer.slice(start);
+
+      if (buffer.length > maxLineLength) {
+        throw this.lineTooLong(line + 1, maxLineLength);
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer.length > 0) {
+      yield { line: ++line, text: this.checkLength(buffer.replace(/\r$/, ''), line, maxLineLength) };
+    }
+  }
+
+  /**
+   * One JSON value per non-blank line
+   */
+  static async *ndjson(source: RecordSource, maxLineLength: number): AsyncGenerator<StreamRecord> {
+    for await (const { line, text, row } of this.lines(source, maxLineLength)) {
+      if (text === undefined) {
+        yield { line, row };
+        continue;
+      }
+      if (text.trim() === '') continue;
+
+      try {
+        yield { line, row: JSON.parse(text) };
+      } catch (error) {
+        yield { line, error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` };
+      }
+    }
+  }
+
+  /**
+   * RFC 4180 CSV: quoted fields may contain delimiters, `""` and newlines.
+   * The first record is the header unless `headers` is given; empty
+   * unquoted cells are left out of the row so they count as missing.
+   */
+  static async *csv(
+    source: RecordSource,
+    options: { delimiter: string; headers?: string[]; maxLineLength: number }
+  ): AsyncGenerator<StreamRecord> {
+    let headers = options.headers;
+    let pending: CsvRecord | undefined;
+
+    for await (const { line, text, row } of this.lines(source, options.maxLineLength)) {
+      if (text === undefined) {
+        yield { line, row };
+        continue;
+      }
+      if (!pending && text === '') continue;
+
+      // A quoted field left open on the previous line continues on this one
+      const record = pending || { line, length: 0, cells: [], cell: '', quoted: false, inQuotes: false };
+      const recordText = pending ? '\n' + text : text;
+
+      // The limit covers the whole record, not just the cell being read
+      record.length += recordText.length;
+      if (record.length > options.maxLineLength) {
+        throw new Error(`Record starting on line ${record.line} exceeds the maximum length of ${options.maxLineLength} characters`);
+      }
+      this.parseCsvText(record, recordText, options.delimiter);
+
+      if (record.inQuotes) {
+        pending = record;
+        continue;
+      }
+      pending = undefined;
+
+      if (!headers) {
+        headers = record.cells.map(cell => cell.value.trim());
+        continue;
+      }
+
+      if (record.cells.length !== headers.length) {
+        yield { line: record.line, error: `Expected ${headers.length} columns but found ${record.cells.length}` };
+        continue;
+      }
+
+      // Defined rather than assigned, so a `__proto__` column stays a plain key
+      const parsed: Record<string, string> = {};
+      record.cells.forEach((cell, i) => {
+        if (cell.value !== '' || cell.quoted) {
+          Object.defineProperty(parsed, headers![i], { value: cell.value, enumerable: true, writable: true, configurable: true });
+        }
+      });
+      yield { line: record.line, row: parsed };
+    }
+
+    if (pending) {
+      yield { line: pending.line, error: 'Unterminated quoted field' };
+    }
+  }
+
+  private static checkLength(text: string, line: number, maxLineLength: number): string {
+    if (text.length > maxLineLength) throw this.lineTooLong(line, maxLineLength);
+    return text;
+  }
+
+  private static lineTooLong(line: number, maxLineLength: number): Error {
+    return new Error(`Line ${line} exceeds the maximum length of ${maxLineLength} characters`);
+  }
+
+  /**
+   * Consume text into a record, completing the last cell unless a quoted
+   * field is still open at the end of the text
+   */
+  private static parseCsvText(record: CsvRecord, text: string, delimiter: string): void {
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (record.inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          record.cell += '"';
+          i++;
+        } else if (char === '"') {
+          record.inQuotes = false;
+        } else {
+          record.cell += char;
+        }
+      } else if (char === '"' && record.cell === '') {
+        record.inQuotes = true;
+        record.quoted = true;
+      } else if (char === delimiter) {
+        record.cells.push({ value: record.cell, quoted: record.quoted });
+        record.cell = '';
+        record.quoted = false;
+      } else {
+        record.cell += char;
+      }
+    }
+
+    if (!record.inQuotes) {
+      record.cells.push({ value: record.cell, quoted: record.quoted });
+      record.cell = '';
+      record.quoted = false;
+    }
+  }
+}
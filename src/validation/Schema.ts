@@ -0,0 +1,341 @@
+import { ValidationCallOptions, ValidationResult, ValidationRule } from '../types';
+import { DataValidator } from './DataValidator';
+import { FieldPath } from './FieldPath';
+
+type PathSegment = { key: string; index: boolean };
+type Issue = ValidationResult['errors'][number];
+// Issues collected during one `validate` call and the locale of their messages
+type ParseContext = { issues: Issue[]; locale?: string };
+
+// Leaf checks are plain ValidationRules applied by a shared, history-free validator
+const ruleChecker = new DataValidator();
+
+/**
+ * Base class for fluent schemas. Schemas are immutable: every modifier
+ * returns a new schema, so a base schema can be shared and extended.
+ */
+export abstract class Schema<Output> {
+  /** Phantom field carrying the output type for `Infer` */
+  readonly _output!: Output;
+  protected checks: Array<{ name: string; rule: ValidationRule }> = [];
+  protected refinements: Array<{ check: (value: any) => boolean; message?: string }> = [];
+
+  /**
+   * Validate data, returning the parsed value (defaults applied, unknown
+   * object keys stripped) as `data` when valid. Messages come from the
+   * `DataValidator` message catalog in `options.locale` (default English).
+   */
+  validate(data: unknown, options: ValidationCallOptions = {}): ValidationResult & { data?: Output } {
+    const context: ParseContext = { issues: [], locale: options.locale };
+    const parsed = this.parseValue(data, [], context);
+
+    return {
+      valid: context.issues.length === 0,
+      errors: context.issues,
+      warnings: [],
+      data: context.issues.length === 0 ? parsed : undefined
+    };
+  }
+
+  optional(): Schema<Output | undefined> {
+    return new WrappedSchema<Output | undefined>(this, value => value === undefined);
+  }
+
+  nullable(): Schema<Output | null> {
+    return new WrappedSchema<Output | null>(this, value => value === null);
+  }
+
+  /**
+   * Substitute a value (or the result of a factory) when the input is undefined
+   */
+  default(value: Exclude<Output, undefined> | (() => Exclude<Output, undefined>)): Schema<Exclude<Output, undefined>> {
+    return new WrappedSchema<Exclude<Output, undefined>>(this, () => false, value);
+  }
+
+  /**
+   * Add a check that runs after the schema's own checks pass
+   */
+  refine(check: (value: Output) => boolean, message?: string): this {
+    const copy = this.clone();
+    copy.refinements = [...this.refinements, { check, message }];
+    return copy;
+  }
+
+  /** @internal */
+  parseValue(value: any, path: PathSegment[], context: ParseContext): any {
+    if (value === undefined) {
+      this.report(path, context, 'required', { type: 'required' }, value);
+      return value;
+    }
+
+    const failures = context.issues.length;
+    const parsed = this.parseType(value, path, context);
+    if (context.issues.length > failures) return parsed;
+
+    for (const { name, rule } of this.checks) {
+      if (!this.report(path, context, name, rule, parsed)) return parsed;
+    }
+
+    for (const { check, message } of this.refinements) {
+      this.report(path, context, 'refine', { type: 'custom', message, messageKey: message ? undefined : 'refine', validator: check }, parsed);
+    }
+
+    return parsed;
+  }
+
+  protected abstract parseType(value: any, path: PathSegment[], context: ParseContext): any;
+
+  protected withCheck(name: string, rule: ValidationRule): this {
+    const copy = this.clone();
+    copy.checks = [...this.checks, { name, rule }];
+    return copy;
+  }
+
+  /**
+   * Apply a rule and record an issue if it fails; returns whether it passed
+   */
+  protected report(path: PathSegment[], context: ParseContext, name: string, rule: ValidationRule, value: any): boolean {
+    const field = FieldPath.format(path);
+    const result = ruleChecker.checkRule(rule, value, { field, locale: context.locale });
+    if (!result.isValid) {
+      context.issues.push({ field, message: result.error, value, rule: name });
+    }
+    return result.isValid;
+  }
+
+  private clone(): this {
+    return Object.assign(Object.create(Object.getPrototypeOf(this)), this);
+  }
+}
+
+export type Infer<S extends Schema<any>> = S['_output'];
+
+class WrappedSchema<Output> extends Schema<Output> {
+  constructor(
+    private inner: Schema<any>,
+    private accepts: (value: any) => boolean,
+    private fallback?: any
+  ) {
+    super();
+  }
+
+  parseValue(value: any, path: PathSegment[], context: ParseContext): any {
+    if (value === undefined && this.fallback !== undefined) {
+      value = typeof this.fallback === 'function' ? this.fallback() : this.fallback;
+    }
+    if (this.accepts(value)) return value;
+
+    const failures = context.issues.length;
+    const parsed = this.inner.parseValue(value, path, context);
+    if (context.issues.length > failures) return parsed;
+
+    for (const { check, message } of this.refinements) {
+      this.report(path, context, 'refine', { type: 'custom', message, messageKey: message ? undefined : 'refine', validator: check }, parsed);
+    }
+    return parsed;
+  }
+
+  protected parseType(value: any, path: PathSegment[], context: ParseContext): any {
+    return this.inner.parseValue(value, path, context);
+  }
+}
+
+export class StringSchema extends Schema<string> {
+  email(message?: string): this {
+    return this.withCheck('email', { type: 'email', message });
+  }
+
+  url(message?: string): this {
+    return this.withCheck('url', { type: 'url', message });
+  }
+
+  min(length: number, message?: string): this {
+    return this.withCheck('min', { type: 'string', min: length, message });
+  }
+
+  max(length: number, message?: string): this {
+    return this.withCheck('max', { type: 'string', max: length, message });
+  }
+
+  pattern(pattern: RegExp, message?: string): this {
+    return this.withCheck('pattern', { type: 'string', pattern, message });
+  }
+
+  protected parseType(value: any, path: PathSegment[], context: ParseContext): any {
+    this.report(path, context, 'string', { type: 'string' }, value);
+    return value;
+  }
+}
+
+export class NumberSchema extends Schema<number> {
+  int(message?: string): this {
+    return this.withCheck('int', { type: 'integer', message });
+  }
+
+  min(min: number, message?: string): this {
+    return this.withCheck('min', { type: 'number', min, message });
+  }
+
+  max(max: number, message?: string): this {
+    return this.withCheck('max', { type: 'number', max, message });
+  }
+
+  protected parseType(value: any, path: PathSegment[], context: ParseContext): any {
+    this.report(path, context, 'number', { type: 'number' }, value);
+    return value;
+  }
+}
+
+export class BooleanSchema extends Schema<boolean> {
+  protected parseType(value: any, path: PathSegment[], context: ParseContext): any {
+    this.report(path, context, 'boolean', { type: 'boolean' }, value);
+    return value;
+  }
+}
+
+export class LiteralSchema<L extends string | number | boolean | null> extends Schema<L> {
+  constructor(private literal: L) {
+    super();
+  }
+
+  protected parseType(value: any, path: PathSegment[], context: ParseContext): any {
+    this.report(path, context, 'literal', { type: 'enum', values: [this.literal] }, value);
+    return value;
+  }
+}
+
+export class AnySchema extends Schema<any> {
+  protected parseType(value: any): any {
+    return value;
+  }
+}
+
+export class ArraySchema<Item extends Schema<any>> extends Schema<Array<Infer<Item>>> {
+  constructor(private item: Item) {
+    super();
+  }
+
+  // Bounds-only rules: the item count is checked by the rule's min/max
+  min(length: number, message?: string): this {
+    return this.withCheck('min', { type: 'custom', min: length, message });
+  }
+
+  max(length: number, message?: string): this {
+    return this.withCheck('max', { type: 'custom', max: length, message });
+  }
+
+  protected parseType(value: any, path: PathSegment[], context: ParseContext): any {
+    if (!this.report(path, context, 'array', {
+      type: 'custom',
+      messageKey: 'array',
+      validator: (v: any) => Array.isArray(v)
+    }, value)) {
+      return value;
+    }
+
+    return value.map((item: any, i: number) => this.item.parseValue(item, [...path, { key: String(i), index: true }], context));
+  }
+}
+
+type Shape = Record<string, Schema<any>>;
+type OptionalKeys<S extends Shape> = { [K in keyof S]: undefined extends Infer<S[K]> ? K : never }[keyof S];
+type Flatten<T> = { [K in keyof T]: T[K] };
+export type ObjectOutput<S extends Shape> = Flatten<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } &
+  { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+export class ObjectSchema<S extends Shape> extends Schema<ObjectOutput<S>> {
+  constructor(readonly shape: S) {
+    super();
+  }
+
+  protected parseType(value: any, path: PathSegment[], context: ParseContext): any {
+    if (!this.report(path, context, 'object', {
+      type: 'custom',
+      messageKey: 'plainObject',
+      validator: (v: any) => v !== null && typeof v === 'object' && !Array.isArray(v)
+    }, value)) {
+      return value;
+    }
+
+    // Unknown keys are stripped from the parsed output
+    const parsed: any = {};
+    for (const key of Object.keys(this.shape)) {
+      const result = this.shape[key].parseValue(value[key], [...path, { key, index: false }], context);
+      if (result !== undefined) parsed[key] = result;
+    }
+    return parsed;
+  }
+}
+
+export class RecordSchema<V extends Schema<any>> extends Schema<Record<string, Infer<V>>> {
+  constructor(private values: V) {
+    super();
+  }
+
+  protected parseType(value: any, path: PathSegment[], context: ParseContext): any {
+    if (!this.report(path, context, 'record', {
+      type: 'custom',
+      messageKey: 'plainObject',
+      validator: (v: any) => v !== null && typeof v === 'object' && !Array.isArray(v)
+    }, value)) {
+      return value;
+    }
+
+    // Defined rather than assigned, so an input key `__proto__` stays a plain key
+    const parsed: any = {};
+    for (const key of Object.keys(value)) {
+      Object.defineProperty(parsed, key, {
+        value: this.values.parseValue(value[key], [...path, { key, index: false }], context),
+        enumerable: true,
+        writable: true,
+        configurable: true
+      });
+    }
+    return parsed;
+  }
+}
+
+export class UnionSchema<Options extends Schema<any>[]> extends Schema<Infer<Options[number]>> {
+  constructor(private options: Options) {
+    super();
+  }
+
+  /**
+   * The first option that parses wins; otherwise report the option that got
+   * furthest (fewest issues) so messages point at the likely intent
+   */
+  protected parseType(value: any, path: PathSegment[], context: ParseContext): any {
+    let best: { issues: Issue[]; parsed: any } | undefined;
+
+    for (const option of this.options) {
+      const issues: Issue[] = [];
+      const parsed = option.parseValue(value, path, { ...context, issues });
+      if (issues.length === 0) return parsed;
+      if (!best || issues.length < best.issues.length) best = { issues, parsed };
+    }
+
+    context.issues.push(...(best ? best.issues : []));
+    return best ? best.parsed : value;
+  }
+}
+
+/**
+ * Schema builder entry point
+ *
+ * @example
+ * const user = v.object({ email: v.string().email(), age: v.number().int().min(0).optional() });
+ * type User = Infer<typeof user>; // { email: string; age?: number | undefined }
+ */
+export const v = {
+  string: () => new StringSchema(),
+  number: () => new NumberSchema(),
+  boolean: () => new BooleanSchema(),
+  any: () => new AnySchema(),
+  literal: <L extends string | number | boolean | null>(value: L) => new LiteralSchema(value),
+  array: <Item extends Schema<any>>(item: Item) => new ArraySchema(item),
+  object: <S extends Shape>(shape: S) => new ObjectSchema(shape),
+  record: <V extends Schema<any>>(values: V) => new RecordSchema(values),
+  union: <Options extends Schema<any>[]>(...options: Options) => new UnionSchema(options)
+};
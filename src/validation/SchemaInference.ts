@@ -0,0 +1,209 @@
+import { InferredFieldSchema, SchemaInferenceOptions } from '../types';
+import { BuiltInRules } from './BuiltInRules';
+
+type Kind = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+// Checked in order; the first format every sampled string matches wins
+const FORMATS: Array<[NonNullable<InferredFieldSchema['format']>, (value: string) => boolean]> = [
+  ['uuid', value => BuiltInRules.TYPES.uuid(value, { type: 'uuid' })],
+  ['datetime', value => BuiltInRules.isISODateTime(value)],
+  ['date', value => BuiltInRules.isISODate(value)],
+  ['ipv4', value => BuiltInRules.isIPv4(value)],
+  ['ipv6', value => BuiltInRules.isIPv6(value)],
+  ['email', value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)],
+  ['url', value => /^https?:\/\/.+/.test(value)]
+];
+
+/**
+ * Infers field schemas from sample records for `DataValidator.inferSchema`
+ */
+export class SchemaInference {
+  static infer(data: any[], options: SchemaInferenceOptions = {}): Record<string, InferredFieldSchema> {
+    const settings = {
+      sampleSize: options.sampleSize ?? 100,
+      maxEnumValues: options.maxEnumValues ?? 10,
+      maxDepth: options.maxDepth ?? 5,
+      requiredThreshold: options.requiredThreshold ?? 0.8
+    };
+
+    return this.inferProperties(data.slice(0, settings.sampleSize), settings, 0);
+  }
+
+  /**
+   * Convert an `ObjectUtils.schema` structure (type names, `null`, `[item]`
+   * arrays and nested objects) into inferred field schemas
+   */
+  static fromStructure(structure: Record<string, any>): Record<string, InferredFieldSchema> {
+    const properties: Record<string, InferredFieldSchema> = {};
+    Object.keys(structure).forEach(key => this.defineField(properties, key, this.structureToField(structure[key])));
+    return properties;
+  }
+
+  /**
+   * Whether `schema` is `inferSchema` output rather than an `ObjectUtils.schema` structure
+   */
+  static isInferred(schema: Record<string, any>): boolean {
+    return Object.values(schema).every(field =>
+      field !== null && typeof field === 'object' && !Array.isArray(field) && typeof field.required === 'boolean'
+    );
+  }
+
+  private static structureToField(structure: any): InferredFieldSchema {
+    const field: InferredFieldSchema = { required: true, confidence: 1, samples: 1 };
+
+    if (structure === null) {
+      field.nullable = true;
+    } else if (structure === 'undefined') {
+      field.required = false;
+    } else if (structure === 'string' || structure === 'number' || structure === 'boolean') {
+      field.type = structure;
+    } else if (Array.isArray(structure)) {
+      field.type = 'array';
+      if (structure.length > 0) field.items = this.structureToField(structure[0]);
+    } else if (typeof structure === 'object') {
+      field.type = 'object';
+      field.properties = this.fromStructure(structure);
+    }
+
+    return field;
+  }
+
+  private static inferProperties(
+    records: any[],
+    settings: Required<SchemaInferenceOptions>,
+    depth: number
+  ): Record<string, InferredFieldSchema> {
+    const objects = records.filter(record => record !== null && typeof record === 'object' && !Array.isArray(record));
+    const schema: Record<string, InferredFieldSchema> = {};
+
+    // Analyze each field
+    const fields = new Set<string>();
+    objects.forEach(object => Object.keys(object).forEach(key => fields.add(key)));
+
+    fields.forEach(field => {
+      const values = objects.filter(object => object[field] !== undefined).map(object => object[field]);
+      const present = values.filter(value => value !== null).length;
+
+      this.defineField(schema, field, {
+        ...this.inferValues(values, settings, depth),
+        // Required when present and non-null in most records
+        required: present > objects.length * settings.requiredThreshold
+      });
+    });
+
+    return schema;
+  }
+
+  /**
+   * Defined rather than assigned, so a sampled key `__proto__` stays a plain field
+   */
+  private static defineField(properties: Record<string, InferredFieldSchema>, key: string, field: InferredFieldSchema): void {
+    Object.defineProperty(properties, key, { value: field, enumerable: true, writable: true, configurable: true });
+  }
+
+  /**
+   * Infer a schema for the values seen at one position. The type is the most
+   * common one; `confidence` is the share of non-null values having it.
+   */
+  private static inferValues(
+    values: any[],
+    settings: Required<SchemaInferenceOptions>,
+    depth: number
+  ): InferredFieldSchema {
+    const nonNull = values.filter(value => value !== null);
+    const schema: InferredFieldSchema = { required: true, confidence: 0, samples: values.length };
+    if (values.length > nonNull.length) schema.nullable = true;
+    if (nonNull.length === 0) return schema;
+
+    const counts = new Map<Kind, number>();
+    nonNull.forEach(value => {
+      const kind = this.kindOf(value);
+      counts.set(kind, (counts.get(kind) || 0) + 1);
+    });
+
+    const ranked = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+    const [type, count] = ranked[0];
+    const typed = nonNull.filter(value => this.kindOf(value) === type);
+    schema.type = type;
+    schema.confidence = count / nonNull.length;
+    if (ranked.length > 1) schema.types = ranked.map(([kind]) => kind);
+
+    switch (type) {
+      case 'string': {
+        const lengths = this.bounds(typed.map(value => value.length));
+        schema.minLength = lengths.min;
+        schema.maxLength = lengths.max;
+
+        const format = FORMATS.find(([, matches]) => typed.every(matches));
+        if (format) {
+          schema.format = format[0];
+        } else {
+          this.inferEnum(schema, typed, settings);
+        }
+        break;
+      }
+
+      case 'number': {
+        const range = this.bounds(typed);
+        schema.min = range.min;
+        schema.max = range.max;
+        this.inferEnum(schema, typed, settings);
+        break;
+      }
+
+      case 'object':
+        if (depth < settings.maxDepth) {
+          schema.properties = this.inferProperties(typed, settings, depth + 1);
+        }
+        break;
+
+      case 'array': {
+        const sizes = this.bounds(typed.map(value => value.length));
+        schema.minItems = sizes.min;
+        schema.maxItems = sizes.max;
+
+        // Sample items across arrays, stopping once there are enough
+        const items: any[] = [];
+        for (let i = 0; i < typed.length && items.length < settings.sampleSize; i++) {
+          for (let j = 0; j < typed[i].length && items.length < settings.sampleSize; j++) items.push(typed[i][j]);
+        }
+        if (items.length > 0 && depth < settings.maxDepth) {
+          schema.items = this.inferValues(items, settings, depth + 1);
+        }
+        break;
+      }
+    }
+
+    return schema;
+  }
+
+  /**
+   * Smallest and largest value in one pass; spreading into `Math.min`
+   * overflows the call stack for large samples
+   */
+  private static bounds(values: number[]): { min: number; max: number } {
+    let min = Infinity;
+    let max = -Infinity;
+    for (const value of values) {
+      if (value < min) min = value;
+      if (value > max) max = value;
+    }
+    return { min, max };
+  }
+
+  /**
+   * Propose an enum when few distinct values each recur
+   */
+  private static inferEnum(schema: InferredFieldSchema, values: Array<string | number>, settings: Required<SchemaInferenceOptions>): void {
+    const distinct = Array.from(new Set(values));
+    if (distinct.length <= settings.maxEnumValues && values.length >= distinct.length * 2) {
+      schema.enum = distinct.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    }
+  }
+
+  private static kindOf(value: any): Kind {
+    if (Array.isArray(value)) return 'array';
+    const type = typeof value;
+    return type === 'string' || type === 'number' || type === 'boolean' ? type : 'object';
+  }
+}
@@ -0,0 +1,143 @@
+import { InferredFieldSchema, TypeScriptGenerationOptions } from '../types';
+import { SchemaInference } from './SchemaInference';
+
+type Declaration = { name: string; properties: Record<string, InferredFieldSchema> };
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Emits TypeScript declarations for `DataValidator.inferSchema` output or an
+ * `ObjectUtils.schema` structure. Nested objects become their own named
+ * types (`Root` -> `RootAddress`, array items -> `RootTagsItem`).
+ */
+export class TypeScriptGenerator {
+  static generate(schema: Record<string, any>, options: TypeScriptGenerationOptions = {}): string {
+    const rootName = options.rootName ?? 'Root';
+    if (!IDENTIFIER.test(rootName)) {
+      throw new Error(`Invalid TypeScript type name: ${JSON.stringify(rootName)}`);
+    }
+
+    const properties = SchemaInference.isInferred(schema) ? schema : SchemaInference.fromStructure(schema);
+    const generator = new TypeScriptGenerator(options);
+
+    generator.declare(rootName, properties);
+    return generator.emit();
+  }
+
+  private queue: Declaration[] = [];
+  private names = new Set<string>();
+
+  private constructor(private options: TypeScriptGenerationOptions) {}
+
+  /**
+   * Reserve a unique name for an object type and queue its declaration
+   */
+  private declare(name: string, properties: Record<string, InferredFieldSchema>): string {
+    let unique = name;
+    for (let i = 2; this.names.has(unique); i++) unique = `${name}${i}`;
+
+    this.names.add(unique);
+    this.queue.push({ name: unique, properties });
+    return unique;
+  }
+
+  private emit(): string {
+    const blocks: string[] = [];
+    const prefix = this.options.exported === false ? '' : 'export ';
+
+    // Declarations queue their nested types while being rendered
+    for (let i = 0; i < this.queue.length; i++) {
+      const { name, properties } = this.queue[i];
+      const body = this.renderBody(name, properties);
+
+      blocks.push(this.options.declaration === 'type'
+        ? `${prefix}type ${name} = ${body};`
+        : `${prefix}interface ${name} ${body}`);
+    }
+
+    return blocks.join('\n\n') + '\n';
+  }
+
+  private renderBody(name: string, properties: Record<string, InferredFieldSchema>): string {
+    const lines = Object.keys(properties).map(key => {
+      const field = properties[key];
+      const comment = field.format ? `  /** Format: ${field.format} */\n` : '';
+      const optional = field.required ? '' : '?';
+      return `${comment}  ${this.propertyName(key)}${optional}: ${this.typeOf(field, name + this.pascalCase(key))};`;
+    });
+
+    return lines.length > 0 ? `{\n${lines.join('\n')}\n}` : '{}';
+  }
+
+  private typeOf(field: InferredFieldSchema, nestedName: string): string {
+    const kinds = field.types || (field.type ? [field.type] : []);
+    const members = kinds.map(kind => kind === field.type ? this.primaryType(field, nestedName) : this.looseType(kind));
+
+    if (field.nullable) members.push('null');
+    if (members.length === 0) members.push('unknown');
+    return Array.from(new Set(members)).join(' | ');
+  }
+
+  /**
+   * Type of the inferred (most common) kind, using enums, items and nested properties
+   */
+  private primaryType(field: InferredFieldSchema, nestedName: string): string {
+    switch (field.type) {
+      case 'string':
+      case 'number':
+        return field.enum
+          ? field.enum.map(value => typeof value === 'string' ? this.quote(value) : String(value)).join(' | ')
+          : field.type;
+
+      case 'object':
+        return field.properties ? this.declare(nestedName, field.properties) : 'Record<string, unknown>';
+
+      case 'array': {
+        if (!field.items) return 'unknown[]';
+        const item = this.typeOf(field.items, `${nestedName}Item`);
+        return /[|\s]/.test(item) ? `Array<${item}>` : `${item}[]`;
+      }
+
+      default:
+        return this.looseType(field.type);
+    }
+  }
+
+  /**
+   * Type of a kind without its details; kinds outside the known ones (schemas
+   * can come from callers) become `unknown` rather than raw declaration text
+   */
+  private looseType(kind: InferredFieldSchema['type']): string {
+    switch (kind) {
+      case 'string':
+      case 'number':
+      case 'boolean':
+        return kind;
+      case 'object':
+        return 'Record<string, unknown>';
+      case 'array':
+        return 'unknown[]';
+      default:
+        return 'unknown';
+    }
+  }
+
+  private propertyName(key: string): string {
+    return IDENTIFIER.test(key) ? key : this.quote(key);
+  }
+
+  /**
+   * String literal with every character escaped that a TypeScript string needs escaped
+   */
+  private quote(value: string): string {
+    return JSON.stringify(value);
+  }
+
+  private pascalCase(key: string): string {
+    return key
+      .split(/[^A-Za-z0-9]+/)
+      .filter(Boolean)
+      .map(part => part[0].toUpperCase() + part.slice(1))
+      .join('');
+  }
+}